@@ -0,0 +1,337 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { UserV2 } from "twitter-api-v2";
+import { ExpandedTweet, ExpandedUser } from "./x/fields.js";
+import { Conversation, ConversationNode } from "./x/conversation.js";
+import {
+  normalizeConversation,
+  NormalizedTweet,
+  NormalizedUser,
+  normalizeTweet,
+  normalizeTweetLookup,
+  normalizeTweetPage,
+  normalizeUser,
+  normalizeUserLookup,
+  normalizeUserPage,
+  TweetLookup,
+  TweetPage,
+  tweetUrl,
+  UserLookup,
+  UserPage,
+} from "./x/normalize.js";
+import { Page } from "./x/pagination.js";
+import { LookupResult } from "./x/lookup.js";
+
+export const OUTPUT_FORMATS = ["json", "markdown", "compact-text"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+type BaseTweet = Omit<NormalizedTweet, "quoted" | "retweeted">;
+
+function handle(tweet: BaseTweet): string {
+  return tweet.author?.username ? `@${tweet.author.username}` : "unknown author";
+}
+
+function metricsLine(tweet: BaseTweet): string | undefined {
+  const metrics = tweet.metrics;
+  if (!metrics) {
+    return undefined;
+  }
+  return `${metrics.likes} likes, ${metrics.retweets} retweets, ${metrics.replies} replies, ${metrics.quotes} quotes`;
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function tweetMarkdown(tweet: NormalizedTweet): string {
+  const lines = [
+    `**${handle(tweet)}**${tweet.author?.name ? ` (${tweet.author.name})` : ""}` +
+      (tweet.created_at ? ` · ${tweet.created_at}` : ""),
+    "",
+    tweet.text,
+  ];
+  if (tweet.reply_to?.tweet_id) {
+    lines.push("", `Reply to ${tweetUrl(tweet.reply_to.tweet_id)}`);
+  }
+  for (const [label, nested] of [
+    ["Quoting", tweet.quoted],
+    ["Retweet of", tweet.retweeted],
+  ] as const) {
+    if (nested) {
+      lines.push("", `> ${label} ${handle(nested)}: ${oneLine(nested.text)}`);
+    }
+  }
+  for (const media of tweet.media ?? []) {
+    const url = media.url ? `: ${media.url}` : "";
+    const alt = media.alt_text ? ` (${media.alt_text})` : "";
+    lines.push("", `- ${media.type}${url}${alt}`);
+  }
+  const metrics = metricsLine(tweet);
+  lines.push("", [metrics, tweet.url].filter(Boolean).join(" · "));
+  return lines.join("\n");
+}
+
+function tweetCompact(tweet: NormalizedTweet): string {
+  const context = tweet.quoted
+    ? ` [quoting ${handle(tweet.quoted)}: ${oneLine(tweet.quoted.text)}]`
+    : tweet.retweeted
+      ? ` [retweet of ${handle(tweet.retweeted)}: ${oneLine(tweet.retweeted.text)}]`
+      : "";
+  return [
+    tweet.id,
+    handle(tweet),
+    tweet.created_at,
+    oneLine(tweet.text) + context,
+    metricsLine(tweet),
+  ]
+    .filter(Boolean)
+    .join(" | ");
+}
+
+/**
+ * Render a tweet as pretty JSON, markdown, or a single `|`-separated line
+ */
+export function renderTweet(tweet: NormalizedTweet, format: OutputFormat): string {
+  switch (format) {
+    case "markdown":
+      return tweetMarkdown(tweet);
+    case "compact-text":
+      return tweetCompact(tweet);
+    default:
+      return JSON.stringify(tweet, null, 2);
+  }
+}
+
+function renderPage(
+  items: string[],
+  meta: TweetPage["meta"],
+  format: OutputFormat
+): string {
+  const separator = format === "markdown" ? "\n\n---\n\n" : "\n";
+  const footer = meta.next_token
+    ? `${meta.result_count} results. Next page: ${meta.next_token}`
+    : `${meta.result_count} results.`;
+  return [...items, footer].join(separator);
+}
+
+/**
+ * Render a page of tweets followed by the result count and next token
+ */
+export function renderTweetPage(page: TweetPage, format: OutputFormat): string {
+  if (format === "json") {
+    return JSON.stringify(page, null, 2);
+  }
+  const tweets = page.tweets.map((tweet) => renderTweet(tweet, format));
+  return renderPage(tweets, page.meta, format);
+}
+
+/**
+ * Render a user profile
+ */
+export function renderUser(user: NormalizedUser, format: OutputFormat): string {
+  if (format === "json") {
+    return JSON.stringify(user, null, 2);
+  }
+  const metrics = user.metrics
+    ? `${user.metrics.followers} followers, ${user.metrics.following} following, ${user.metrics.tweets} tweets`
+    : undefined;
+  if (format === "compact-text") {
+    const description = user.description && oneLine(user.description);
+    return [user.id, `@${user.username}`, user.name, metrics, description]
+      .filter(Boolean)
+      .join(" | ");
+  }
+  const lines = [`**${user.name}** (@${user.username}) · ${user.url}`];
+  for (const line of [user.description, user.location, metrics]) {
+    if (line) {
+      lines.push("", line);
+    }
+  }
+  if (user.pinned_tweet) {
+    lines.push("", `Pinned: ${oneLine(user.pinned_tweet.text)} (${user.pinned_tweet.url})`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Render a page of users followed by the result count and next token
+ */
+export function renderUserPage(page: UserPage, format: OutputFormat): string {
+  if (format === "json") {
+    return JSON.stringify(page, null, 2);
+  }
+  const users = page.users.map((user) => renderUser(user, format));
+  return renderPage(users, page.meta, format);
+}
+
+function renderLookup<T>(
+  entries: { query: string; item?: T; error?: { code: string; message: string } }[],
+  render: (item: T) => string,
+  format: OutputFormat
+): string {
+  const items = entries.map(({ query, item, error }) => {
+    if (item) {
+      return render(item);
+    }
+    return format === "markdown"
+      ? `**${query}**: ${error?.code} (${error?.message})`
+      : [query, error?.code, error?.message].filter(Boolean).join(" | ");
+  });
+  const missing = entries.filter((entry) => !entry.item).length;
+  const separator = format === "markdown" ? "\n\n---\n\n" : "\n";
+  return [...items, `${entries.length - missing} found, ${missing} missing.`].join(
+    separator
+  );
+}
+
+/**
+ * Render batch lookup results in input order, with the error of missing tweets
+ */
+export function renderTweetLookup(lookup: TweetLookup, format: OutputFormat): string {
+  if (format === "json") {
+    return JSON.stringify(lookup, null, 2);
+  }
+  return renderLookup(
+    lookup.results.map(({ tweet, ...entry }) => ({ ...entry, item: tweet })),
+    (tweet) => renderTweet(tweet, format),
+    format
+  );
+}
+
+/**
+ * Render batch lookup results in input order, with the error of missing users
+ */
+export function renderUserLookup(lookup: UserLookup, format: OutputFormat): string {
+  if (format === "json") {
+    return JSON.stringify(lookup, null, 2);
+  }
+  return renderLookup(
+    lookup.results.map(({ user, ...entry }) => ({ ...entry, item: user })),
+    (user) => renderUser(user, format),
+    format
+  );
+}
+
+/**
+ * Render a conversation as an indented reply tree
+ */
+export function renderConversation(
+  conversation: Conversation<NormalizedTweet>,
+  format: OutputFormat
+): string {
+  if (format === "json") {
+    return JSON.stringify(conversation, null, 2);
+  }
+  const lines: string[] = [];
+  const visit = (node: ConversationNode<NormalizedTweet>, indent: number) => {
+    const { tweet } = node;
+    lines.push(
+      "  ".repeat(indent) +
+        (format === "markdown"
+          ? `- **${handle(tweet)}**: ${oneLine(tweet.text)} (${tweet.url})`
+          : tweetCompact(tweet))
+    );
+    for (const child of node.children) {
+      visit(child, indent + 1);
+    }
+  };
+  if (conversation.root) {
+    visit(conversation.root, 0);
+  } else {
+    lines.push("The first tweet of the conversation is not available.");
+  }
+  if (conversation.orphans.length > 0) {
+    lines.push("", "Replies whose parent was not found:");
+    conversation.orphans.forEach((orphan) => visit(orphan, 0));
+  }
+  const { tweet_count, omitted, truncated } = conversation.meta;
+  lines.push(
+    "",
+    `${tweet_count} tweets` +
+      (omitted > 0 ? `, ${omitted} deeper replies omitted` : "") +
+      (truncated ? ", more replies not fetched" : "") +
+      "."
+  );
+  return lines.join("\n");
+}
+
+function formattedResult(
+  structured: Record<string, unknown>,
+  text: string
+): CallToolResult {
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: structured,
+  };
+}
+
+/**
+ * Build tool results for a tweet: the normalized tweet as structured content,
+ * rendered in the requested format as text
+ */
+export function presentTweet(format: OutputFormat) {
+  return (tweet: ExpandedTweet): CallToolResult => {
+    const normalized = normalizeTweet(tweet);
+    return formattedResult(normalized, renderTweet(normalized, format));
+  };
+}
+
+/**
+ * Build tool results for a page of tweets
+ */
+export function presentTweetPage(format: OutputFormat) {
+  return (page: Page<ExpandedTweet>): CallToolResult => {
+    const normalized = normalizeTweetPage(page);
+    return formattedResult(normalized, renderTweetPage(normalized, format));
+  };
+}
+
+/**
+ * Build tool results for a user profile
+ */
+export function presentUser(format: OutputFormat) {
+  return (user: UserV2): CallToolResult => {
+    const normalized = normalizeUser(user);
+    return formattedResult(normalized, renderUser(normalized, format));
+  };
+}
+
+/**
+ * Build tool results for a page of users
+ */
+export function presentUserPage(format: OutputFormat) {
+  return (page: Page<ExpandedUser>): CallToolResult => {
+    const normalized = normalizeUserPage(page);
+    return formattedResult(normalized, renderUserPage(normalized, format));
+  };
+}
+
+/**
+ * Build tool results for a batch tweet lookup
+ */
+export function presentTweetLookup(format: OutputFormat) {
+  return (results: LookupResult<ExpandedTweet>[]): CallToolResult => {
+    const normalized = normalizeTweetLookup(results);
+    return formattedResult(normalized, renderTweetLookup(normalized, format));
+  };
+}
+
+/**
+ * Build tool results for a batch user lookup
+ */
+export function presentUserLookup(format: OutputFormat) {
+  return (results: LookupResult<ExpandedUser>[]): CallToolResult => {
+    const normalized = normalizeUserLookup(results);
+    return formattedResult(normalized, renderUserLookup(normalized, format));
+  };
+}
+
+/**
+ * Build tool results for a conversation reply tree
+ */
+export function presentConversation(format: OutputFormat) {
+  return (conversation: Conversation): CallToolResult => {
+    const normalized = normalizeConversation(conversation);
+    return formattedResult(normalized, renderConversation(normalized, format));
+  };
+}
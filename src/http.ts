@@ -0,0 +1,420 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  ServerResponse,
+} from "node:http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { Config } from "./x/auth.js";
+import { credentialStore } from "./x/credentials.js";
+import { restrictMediaSources } from "./x/media.js";
+import { logger } from "./logger.js";
+import { SessionAccess } from "./server.js";
+
+export type HttpServerOptions = {
+  host: string;
+  port: number;
+};
+
+// The largest request body read, configured with HTTP_MAX_BODY_MB (default: 4 MB)
+const MAX_BODY_BYTES = Number(process.env.HTTP_MAX_BODY_MB ?? 4) * 1024 * 1024;
+
+/**
+ * A request refused with an HTTP status before it reaches MCP
+ */
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// Sessions without a request for this long are closed, configured with
+// HTTP_SESSION_IDLE_MINUTES (default: 30)
+const SESSION_IDLE_MS = Number(process.env.HTTP_SESSION_IDLE_MINUTES ?? 30) * 60 * 1000;
+
+// How often idle sessions are looked for
+const SESSION_SWEEP_MS = 60 * 1000;
+
+type Session = {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  // The bearer token that opened the session; every later request must carry it
+  token: string;
+  lastActive: number;
+};
+
+function bearerToken(req: IncomingMessage): string | undefined {
+  return req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+}
+
+/**
+ * Compare a provided token with an expected one in constant time
+ */
+function tokensMatch(expected: string, provided: string): boolean {
+  const expectedBytes = Buffer.from(expected);
+  const providedBytes = Buffer.from(provided);
+  return (
+    expectedBytes.length === providedBytes.length &&
+    timingSafeEqual(expectedBytes, providedBytes)
+  );
+}
+
+/**
+ * Parse HTTP_ACCESS_TOKENS: a JSON object mapping each server access token to
+ * the registered accounts its sessions may act as, e.g.
+ * `{"<token>": ["brand", "support"], "<other token>": "*"}`
+ */
+function readAccessTokens(): Map<string, string[] | "*"> {
+  const raw = process.env.HTTP_ACCESS_TOKENS?.trim();
+  if (!raw) {
+    return new Map();
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("HTTP_ACCESS_TOKENS is not valid JSON");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("HTTP_ACCESS_TOKENS must be a JSON object");
+  }
+  return new Map(
+    Object.entries(parsed).map(([token, accounts]) => {
+      if (
+        accounts !== "*" &&
+        !(Array.isArray(accounts) && accounts.every((alias) => typeof alias === "string"))
+      ) {
+        throw new Error(
+          'HTTP_ACCESS_TOKENS maps each token to a list of account aliases or "*"'
+        );
+      }
+      return [token, accounts as string[] | "*"];
+    })
+  );
+}
+
+/**
+ * Read what a session may act as from the request that opens it:
+ * - a server access token from HTTP_ACCESS_TOKENS binds the session to its
+ *   registered accounts, the first of them being the default
+ * - any other bearer token is the session's OAuth 2.0 user token, with an
+ *   optional `X-Twitter-Refresh-Token` header, and no registered accounts
+ *
+ * HTTP sessions never use the server's own credentials.
+ * @returns The session access, or undefined without a bearer token
+ */
+function sessionAccessFrom(
+  req: IncomingMessage,
+  accessTokens: Map<string, string[] | "*">
+): SessionAccess | undefined {
+  const accessToken = bearerToken(req);
+  if (!accessToken) {
+    return undefined;
+  }
+  for (const [token, accounts] of accessTokens) {
+    if (tokensMatch(token, accessToken)) {
+      return {
+        accounts,
+        defaultAccount: accounts === "*" ? undefined : accounts[0],
+        serverCredentials: false,
+      };
+    }
+  }
+  const refreshToken = req.headers["x-twitter-refresh-token"];
+  return {
+    config: {
+      accessToken,
+      refreshToken: typeof refreshToken === "string" ? refreshToken : undefined,
+    },
+    accounts: [],
+    serverCredentials: false,
+  };
+}
+
+function sendUnauthorized(res: ServerResponse): void {
+  res.setHeader("WWW-Authenticate", "Bearer");
+  sendJsonRpcError(
+    res,
+    401,
+    "Unauthorized: open the session with `Authorization: Bearer <OAuth 2.0 user token or server access token>`"
+  );
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Read and parse a JSON body of at most MAX_BODY_BYTES
+ * @throws HttpError 413 for a larger body, before it is buffered
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const tooLarge = new HttpError(
+    413,
+    `Payload too large: requests are limited to ${MAX_BODY_BYTES / 1024 / 1024} MB`
+  );
+  if (Number(req.headers["content-length"] ?? 0) > MAX_BODY_BYTES) {
+    throw tooLarge;
+  }
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+  for await (const chunk of req) {
+    bytes += (chunk as Buffer).length;
+    if (bytes > MAX_BODY_BYTES) {
+      throw tooLarge;
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function isInitializeRequest(body: unknown): boolean {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.some(
+    (message) =>
+      typeof message === "object" &&
+      message !== null &&
+      (message as { method?: unknown }).method === "initialize"
+  );
+}
+
+/**
+ * Whether a request carries the admin token from ADMIN_TOKEN
+ */
+function isAdmin(req: IncomingMessage): boolean {
+  const adminToken = process.env.ADMIN_TOKEN;
+  const provided = bearerToken(req);
+  return Boolean(adminToken && provided && tokensMatch(adminToken, provided));
+}
+
+/**
+ * Manage registered accounts. Disabled unless ADMIN_TOKEN is set.
+ * - `GET /admin/accounts`: list aliases
+ * - `PUT /admin/accounts/<alias>`: register `{ accessToken, refreshToken?, accessSecret? }`
+ * - `DELETE /admin/accounts/<alias>`: remove
+ */
+async function handleAdmin(req: IncomingMessage, res: ServerResponse, url: URL) {
+  if (!process.env.ADMIN_TOKEN) {
+    sendJson(res, 404, { error: "Not found" });
+    return;
+  }
+  if (!isAdmin(req)) {
+    sendJson(res, 401, { error: "Unauthorized" });
+    return;
+  }
+
+  const alias = decodeURIComponent(url.pathname.slice("/admin/accounts/".length));
+  if (url.pathname === "/admin/accounts" && req.method === "GET") {
+    sendJson(res, 200, { accounts: credentialStore.aliases() });
+  } else if (alias && req.method === "PUT") {
+    const body = (await readJsonBody(req)) as Config | undefined;
+    if (!body?.accessToken) {
+      sendJson(res, 400, { error: "accessToken is required" });
+      return;
+    }
+    credentialStore.set({
+      alias,
+      accessToken: body.accessToken,
+      refreshToken: body.refreshToken,
+      accessSecret: body.accessSecret,
+    });
+    logger.info("Account registered", { alias });
+    sendJson(res, 200, { alias });
+  } else if (alias && req.method === "DELETE") {
+    const removed = credentialStore.remove(alias);
+    sendJson(res, removed ? 200 : 404, removed ? { alias } : { error: "Unknown account" });
+  } else {
+    sendJson(res, 404, { error: "Not found" });
+  }
+}
+
+/**
+ * Serve MCP over HTTP. Each session gets its own McpServer:
+ * - `POST|GET|DELETE /mcp`: Streamable HTTP transport
+ * - `GET /sse` and `POST /messages?sessionId=...`: legacy HTTP+SSE transport
+ * - `GET /health`: liveness and session count
+ * - `/admin/accounts`: account registration, see handleAdmin
+ * @param createServer Builds a server for a new session from its credentials
+ * @param options Where to listen
+ */
+export async function startHttpServer(
+  createServer: (access: SessionAccess) => McpServer,
+  options: HttpServerOptions
+): Promise<void> {
+  const sessions = new Map<string, Session>();
+  const accessTokens = readAccessTokens();
+  // Remote callers must not read the server's files or reach its network
+  restrictMediaSources();
+
+  const closeSession = (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (session) {
+      sessions.delete(sessionId);
+      logger.info("MCP session closed", { sessionId });
+    }
+  };
+
+  /**
+   * Find a session for a request made with the token that opened it. A
+   * session id alone does not grant its account.
+   */
+  const sessionFor = (req: IncomingMessage, sessionId: string): Session | undefined => {
+    const session = sessions.get(sessionId);
+    const provided = bearerToken(req);
+    if (!session || !provided || !tokensMatch(session.token, provided)) {
+      return undefined;
+    }
+    session.lastActive = Date.now();
+    return session;
+  };
+
+  // Clients that disappear without closing their session would otherwise
+  // keep its transport and server forever
+  setInterval(() => {
+    const idleSince = Date.now() - SESSION_IDLE_MS;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastActive < idleSince) {
+        logger.info("Closing an idle MCP session", { sessionId });
+        closeSession(sessionId);
+        session.server.close().catch((error: unknown) => {
+          logger.warn("Failed to close an idle MCP session", error);
+        });
+      }
+    }
+  }, SESSION_SWEEP_MS).unref();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionIdHeader = req.headers["mcp-session-id"];
+    const sessionId = typeof sessionIdHeader === "string" ? sessionIdHeader : undefined;
+
+    if (sessionId) {
+      const session = sessionFor(req, sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendJsonRpcError(res, 400, "Bad Request: no valid session ID provided");
+      return;
+    }
+    // Checked before the body is read, so anonymous callers cannot make the server buffer it
+    const access = sessionAccessFrom(req, accessTokens);
+    if (!access) {
+      sendUnauthorized(res);
+      return;
+    }
+    const token = bearerToken(req) as string;
+    const body = await readJsonBody(req);
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Bad Request: no valid session ID provided");
+      return;
+    }
+    const server = createServer(access);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, token, lastActive: Date.now() });
+        logger.info("MCP session opened", { sessionId: id, transport: "streamable-http" });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        closeSession(transport.sessionId);
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse) => {
+    const access = sessionAccessFrom(req, accessTokens);
+    if (!access) {
+      sendUnauthorized(res);
+      return;
+    }
+    const server = createServer(access);
+    const transport = new SSEServerTransport("/messages", res);
+    sessions.set(transport.sessionId, {
+      transport,
+      server,
+      token: bearerToken(req) as string,
+      lastActive: Date.now(),
+    });
+    logger.info("MCP session opened", { sessionId: transport.sessionId, transport: "sse" });
+    res.on("close", () => closeSession(transport.sessionId));
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const session = sessionFor(req, url.searchParams.get("sessionId") ?? "");
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      if (url.pathname === "/health" && req.method === "GET") {
+        sendJson(res, 200, { status: "ok", sessions: sessions.size });
+      } else if (url.pathname.startsWith("/admin/accounts")) {
+        await handleAdmin(req, res, url);
+      } else if (url.pathname === "/mcp") {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSse(req, res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: "Not found" });
+      }
+    } catch (error: unknown) {
+      if (error instanceof HttpError) {
+        if (!res.headersSent) {
+          // The rest of the body is not read, so the connection cannot be reused
+          res.setHeader("Connection", "close");
+          sendJsonRpcError(res, error.status, error.message);
+        }
+        return;
+      }
+      logger.error("HTTP request failed", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(
+          res,
+          error instanceof SyntaxError ? 400 : 500,
+          error instanceof SyntaxError ? "Parse error" : "Internal server error"
+        );
+      }
+    }
+  });
+
+  await new Promise<void>((resolve) =>
+    httpServer.listen(options.port, options.host, resolve)
+  );
+  logger.info("Twitter MCP server listening", {
+    url: `http://${options.host}:${options.port}/mcp`,
+  });
+}
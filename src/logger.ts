@@ -0,0 +1,218 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFileSync } from "node:fs";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogEntry = {
+  time: string;
+  level: LogLevel;
+  message: string;
+  data?: unknown;
+};
+
+/**
+ * Receives every entry at or above the forwarding level, e.g. to send it to
+ * the MCP client as a logging notification
+ */
+export type LogForwarder = (entry: LogEntry) => void | Promise<void>;
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const REDACTED = "[REDACTED]";
+
+// Object keys whose values are always credentials
+const SECRET_KEY_PATTERN =
+  /token|secret|password|authorization|api[-_]?key|app[-_]?key|cookie/i;
+
+// Bearer headers, and long opaque strings that look like access tokens or keys
+const SECRET_VALUE_PATTERNS = [
+  /Bearer\s+[A-Za-z0-9\-._~+/%]+=*/g,
+  /\b[A-Za-z0-9\-_%]{32,}\b/g,
+];
+
+function isLogLevel(value: string | undefined): value is LogLevel {
+  return value !== undefined && value in LEVELS;
+}
+
+/**
+ * Mask anything that looks like a credential in a string
+ */
+export function redactString(value: string): string {
+  return SECRET_VALUE_PATTERNS.reduce(
+    (result, pattern) => result.replace(pattern, REDACTED),
+    value
+  );
+}
+
+/**
+ * Deep-copy a value for logging, masking credential keys and token-like strings.
+ * Errors are reduced to their name, message and API error details.
+ */
+export function redact(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value === "string") {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (seen.has(value)) {
+    return "[Circular]";
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const details = value as Error & { code?: unknown; data?: unknown };
+    return redact(
+      {
+        name: value.name,
+        message: value.message,
+        code: details.code,
+        data: details.data,
+      },
+      seen
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] =
+      SECRET_KEY_PATTERN.test(key) && item != null ? REDACTED : redact(item, seen);
+  }
+  return result;
+}
+
+/**
+ * Structured logger. Never writes to stdout, which is reserved for the
+ * MCP stdio transport.
+ */
+export class Logger {
+  private level: LogLevel;
+  private format: "text" | "json";
+  private file?: string;
+  private forwarders = new Map<LogForwarder, { level: LogLevel; scope?: object }>();
+  // The scope of the code logging, e.g. the MCP session whose request it serves
+  private scopes = new AsyncLocalStorage<object>();
+
+  constructor(options: {
+    level?: LogLevel;
+    format?: "text" | "json";
+    file?: string;
+  }) {
+    this.level = options.level ?? "info";
+    this.format = options.format ?? "text";
+    this.file = options.file;
+  }
+
+  /**
+   * Set the minimum level written to the local sink
+   */
+  public setLevel(level: LogLevel): void {
+    this.level = level;
+  }
+
+  /**
+   * Forward entries at or above a level to another destination, e.g. one
+   * connected MCP client. Calling it again for the same forwarder changes its level.
+   * @param forwarder The destination
+   * @param level The minimum level to forward
+   * @param scope Forward only entries logged within `runInScope` of this scope,
+   *   so a client never sees what other sessions do
+   */
+  public setForwarder(
+    forwarder: LogForwarder,
+    level: LogLevel = "info",
+    scope?: object
+  ): void {
+    this.forwarders.set(forwarder, { level, scope });
+  }
+
+  /**
+   * Run a function in a scope; entries it logs, also asynchronously, belong to it
+   */
+  public runInScope<T>(scope: object, fn: () => T): T {
+    return this.scopes.run(scope, fn);
+  }
+
+  /**
+   * Stop forwarding entries to a destination
+   */
+  public removeForwarder(forwarder: LogForwarder): void {
+    this.forwarders.delete(forwarder);
+  }
+
+  public debug(message: string, data?: unknown): void {
+    this.log("debug", message, data);
+  }
+
+  public info(message: string, data?: unknown): void {
+    this.log("info", message, data);
+  }
+
+  public warn(message: string, data?: unknown): void {
+    this.log("warn", message, data);
+  }
+
+  public error(message: string, data?: unknown): void {
+    this.log("error", message, data);
+  }
+
+  public log(level: LogLevel, message: string, data?: unknown): void {
+    const entry: LogEntry = {
+      time: new Date().toISOString(),
+      level,
+      message: redactString(message),
+      ...(data !== undefined ? { data: redact(data) } : {}),
+    };
+
+    if (LEVELS[level] >= LEVELS[this.level]) {
+      this.write(entry);
+    }
+    const scope = this.scopes.getStore();
+    for (const [forwarder, options] of this.forwarders) {
+      if (
+        LEVELS[level] >= LEVELS[options.level] &&
+        (options.scope === undefined || options.scope === scope)
+      ) {
+        // Forwarding is best effort; a disconnected client must not break logging
+        Promise.resolve()
+          .then(() => forwarder(entry))
+          .catch(() => {});
+      }
+    }
+  }
+
+  private write(entry: LogEntry): void {
+    const line =
+      this.format === "json"
+        ? JSON.stringify(entry)
+        : `${entry.time} ${entry.level.toUpperCase()} ${entry.message}` +
+          (entry.data !== undefined ? ` ${JSON.stringify(entry.data)}` : "");
+
+    if (this.file) {
+      try {
+        appendFileSync(this.file, line + "\n");
+        return;
+      } catch {
+        // Fall back to stderr if the log file cannot be written
+      }
+    }
+    process.stderr.write(line + "\n");
+  }
+}
+
+/**
+ * The shared logger, configured from LOG_LEVEL, LOG_FORMAT and LOG_FILE
+ */
+export const logger = new Logger({
+  level: isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : "info",
+  format: process.env.LOG_FORMAT === "json" ? "json" : "text",
+  file: process.env.LOG_FILE || undefined,
+});
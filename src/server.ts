@@ -0,0 +1,1988 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  CallToolResult,
+  LoggingLevel,
+  SetLevelRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { TwitterService } from "./x/services.js";
+import { Config, getAvailableAuthModes } from "./x/auth.js";
+import { LogForwarder, logger, LogLevel } from "./logger.js";
+import { toTwitterServiceError, TwitterServiceError } from "./x/errors.js";
+import { credentialStore, StoredAccount } from "./x/credentials.js";
+import {
+  ACTION_STATUSES,
+  ApprovableTool,
+  approvalQueue,
+  PendingAction,
+} from "./x/approvals.js";
+import { DryRun, dryRunEnabled } from "./x/dryrun.js";
+import { DEFAULT_TIME_ZONE, JOB_STATUSES, scheduler } from "./x/scheduler.js";
+import {
+  OUTPUT_FORMATS,
+  presentConversation,
+  presentTweet,
+  presentTweetLookup,
+  presentTweetPage,
+  presentUser,
+  presentUserLookup,
+  presentUserPage,
+} from "./format.js";
+import {
+  tweetLookupSchema,
+  tweetPageSchema,
+  tweetSchema,
+  userLookupSchema,
+  userPageSchema,
+  userSchema,
+} from "./x/normalize.js";
+import { MAX_PAGINATED_RESULTS } from "./x/pagination.js";
+import { MAX_ALT_TEXT_LENGTH, MAX_IMAGES } from "./x/media.js";
+import {
+  FIELD_PRESETS,
+  MEDIA_FIELDS,
+  TWEET_EXPANSIONS,
+  TWEET_FIELDS,
+  USER_FIELDS,
+} from "./x/fields.js";
+
+// Initialize the Twitter service
+const twitterService = TwitterService.getInstance();
+
+// Whether held actions are put to the human at the client right away
+const APPROVAL_ELICITATION = process.env.APPROVAL_ELICITATION === "true";
+
+// Whether this server offers approve_action, reject_action and edit_action;
+// off by default, so the agent whose writes are held cannot approve them itself
+const APPROVAL_REVIEW_TOOLS = process.env.APPROVAL_REVIEW_TOOLS === "true";
+
+// Whether the approval queue is kept in APPROVAL_FILE, where a reviewer's
+// server can approve the actions held here
+const APPROVAL_SHARED = Boolean(process.env.APPROVAL_FILE);
+
+// Selects the registered account a tool acts as
+const accountSchema = z
+  .string()
+  .optional()
+  .describe(
+    "Alias of a registered account this session may act as (see list_accounts). Defaults to the session credentials"
+  );
+
+// Lets read-only tools skip the response cache
+const bypassCacheSchema = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe("Fetch fresh data instead of a cached response");
+
+// Pagination arguments shared by the tools returning lists of results
+const pagingShape = {
+  paginationToken: z
+    .string()
+    .optional()
+    .describe("The `next_token` of a previous call, to continue after its last page"),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      `Fetch pages until this many results are collected (at most ${MAX_PAGINATED_RESULTS})`
+    ),
+  fetchAll: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(`Fetch every page, up to ${MAX_PAGINATED_RESULTS} results`),
+};
+
+// Field selection for tools returning users
+const userFieldsShape = {
+  preset: z
+    .enum(FIELD_PRESETS)
+    .optional()
+    .describe(
+      "Which fields to request: minimal, standard (default) or full. Explicit field lists override it"
+    ),
+  userFields: z
+    .array(z.enum(USER_FIELDS))
+    .optional()
+    .describe("The user.fields to request"),
+  tweetFields: z
+    .array(z.enum(TWEET_FIELDS))
+    .optional()
+    .describe("The tweet.fields to request for expanded tweets"),
+};
+
+// Field and expansion selection for tools returning tweets
+const tweetFieldsShape = {
+  ...userFieldsShape,
+  tweetFields: z
+    .array(z.enum(TWEET_FIELDS))
+    .optional()
+    .describe("The tweet.fields to request"),
+  userFields: z
+    .array(z.enum(USER_FIELDS))
+    .optional()
+    .describe("The user.fields to request for authors and mentioned users"),
+  mediaFields: z
+    .array(z.enum(MEDIA_FIELDS))
+    .optional()
+    .describe("The media.fields to request for attached media"),
+  expansions: z
+    .array(z.enum(TWEET_EXPANSIONS))
+    .optional()
+    .describe("The expansions to request; expanded objects are attached to each tweet"),
+};
+
+// Media attached to a new tweet
+const mediaSchema = z
+  .array(
+    z.object({
+      source: z
+        .string()
+        .describe(
+          "Base64 data, a data URL, an http(s) URL, a local file path or a file:// URI (paths only over stdio)"
+        ),
+      altText: z
+        .string()
+        .max(MAX_ALT_TEXT_LENGTH)
+        .optional()
+        .describe("Description of the image for screen readers (images and GIFs only)"),
+    })
+  )
+  .max(MAX_IMAGES)
+  .optional()
+  .describe(
+    "Up to four JPEG, PNG or WebP images, or a single GIF or MP4/MOV video"
+  );
+
+// Lets write tools describe their requests instead of sending them
+const dryRunSchema = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe(
+    "Validate the input and return the requests that would be sent, without calling the API. Always on when the server runs with DRY_RUN=true"
+  );
+
+// How tools returning tweets or users render their text content
+const formatSchema = z
+  .enum(OUTPUT_FORMATS)
+  .optional()
+  .default("json")
+  .describe(
+    "How to render the text result: json, markdown or compact-text (one line per tweet)"
+  );
+
+// Raw tokens in tool arguments are visible to the model, kept for backwards compatibility
+const configSchema = z
+  .object({
+    accessToken: z.string().optional().describe("OAuth 2.0 user access token"),
+    refreshToken: z
+      .string()
+      .optional()
+      .describe("OAuth 2.0 refresh token, used when the access token expires"),
+  })
+  .optional()
+  .describe("Deprecated: pass `account` instead of raw tokens");
+
+// The parts of a thread
+const threadPartsSchema = z
+  .array(
+    z.object({
+      text: z.string().describe("The text of this part; may be empty when it has media"),
+      media: mediaSchema.describe(
+        "Media to attach to the first tweet of this part: up to four JPEG, PNG or WebP images, or a single GIF or MP4/MOV video"
+      ),
+      imageBase64: z
+        .string()
+        .optional()
+        .describe("Deprecated: pass `media` instead. Image to attach to the first tweet of this part"),
+    })
+  )
+  .min(1)
+  .describe("The thread, in order");
+
+// The arguments an action held for approval is sent with, per tool
+const actionArgumentSchemas = {
+  post_tweet: z.object({ text: z.string(), media: mediaSchema }),
+  reply_to_tweet: z.object({
+    tweetId: z.string(),
+    replyText: z.string(),
+    media: mediaSchema,
+  }),
+  quote_tweet: z.object({
+    tweetId: z.string(),
+    replyText: z.string(),
+    media: mediaSchema,
+  }),
+  post_thread: z.object({
+    parts: threadPartsSchema,
+    numbering: z.boolean().optional(),
+    rollbackOnFailure: z.boolean().optional(),
+  }),
+  schedule_tweet: z.object({
+    text: z.string().optional(),
+    media: mediaSchema,
+    parts: threadPartsSchema.optional(),
+    numbering: z.boolean().optional(),
+    rollbackOnFailure: z.boolean().optional(),
+    at: z.string(),
+    timeZone: z.string().optional(),
+  }),
+  follow_user: z.object({ targetUserId: z.string() }),
+  follow_list: z.object({ listId: z.string() }),
+};
+
+type ActionArguments = {
+  [K in ApprovableTool]: z.infer<(typeof actionArgumentSchemas)[K]>;
+};
+
+// The service call behind each tool that can be held for approval
+const actionRunners: {
+  [K in ApprovableTool]: (
+    config: Config,
+    args: ActionArguments[K],
+    dryRun: boolean
+  ) => Promise<unknown>;
+} = {
+  post_tweet: (config, { text, media }, dryRun) =>
+    twitterService.postTweet(config, text, media, dryRun),
+  reply_to_tweet: (config, { tweetId, replyText, media }, dryRun) =>
+    twitterService.replyToTweet(config, tweetId, replyText, media, dryRun),
+  quote_tweet: (config, { tweetId, replyText, media }, dryRun) =>
+    twitterService.quoteAndComment(config, tweetId, replyText, media, dryRun),
+  post_thread: (config, { parts, numbering, rollbackOnFailure }, dryRun) =>
+    twitterService.postThread(config, parts, {
+      numbering,
+      rollback: rollbackOnFailure,
+      dryRun,
+    }),
+  schedule_tweet: (config, { at, timeZone, ...post }, dryRun) =>
+    scheduler.schedule(config, post, at, timeZone, dryRun),
+  follow_user: (config, { targetUserId }, dryRun) =>
+    twitterService.followUser(config, targetUserId, dryRun),
+  follow_list: (config, { listId }, dryRun) =>
+    twitterService.setListFollowed(config, listId, true, dryRun),
+};
+
+/**
+ * Run a tool that can be held for approval. The arguments are validated
+ * again, since held actions are persisted and can be edited.
+ */
+async function runAction<K extends ApprovableTool>(
+  tool: K,
+  config: Config,
+  args: Record<string, unknown>,
+  dryRun: boolean
+): Promise<unknown> {
+  const parsed = actionArgumentSchemas[tool].safeParse(args);
+  if (!parsed.success) {
+    throw new TwitterServiceError("validation", `Invalid arguments for ${tool}`, {
+      details: parsed.error.issues,
+    });
+  }
+  return actionRunners[tool](config, parsed.data as ActionArguments[K], dryRun);
+}
+
+/**
+ * Check a tool call with a dry run and queue it for approval
+ * @returns The pending action, with the requests approving it will send
+ */
+async function holdAction(
+  tool: ApprovableTool,
+  config: Config,
+  args: Record<string, unknown>
+): Promise<PendingAction> {
+  const preview = (await runAction(tool, config, args, true)) as DryRun;
+  const me = await twitterService.getAuthenticatedUser(config);
+  return approvalQueue.enqueue({
+    tool,
+    arguments: args,
+    account: credentialStore.owns(config)
+      ? (config as StoredAccount).alias
+      : undefined,
+    userId: me.id,
+    username: me.username,
+    requests: preview.requests,
+  });
+}
+
+/**
+ * Refuse credentials of another user than the one an action was queued as,
+ * which would send it from the wrong account
+ */
+async function assertActingUser(action: PendingAction, config: Config): Promise<void> {
+  const me = await twitterService.getAuthenticatedUser(config);
+  if (me.id !== action.userId) {
+    throw new TwitterServiceError(
+      "forbidden",
+      `Action ${action.id} was queued as @${action.username}, not @${me.username}; pass the account it was queued with`
+    );
+  }
+}
+
+/**
+ * Send an approved action
+ * @returns The action with its result; a failed action stays open and the error is thrown
+ */
+async function sendAction(id: string, config: Config): Promise<PendingAction> {
+  await assertActingUser(approvalQueue.get(id), config);
+  // Claimed first, so a second approval, even from another server, cannot send it twice
+  const action = await approvalQueue.update(id, ["pending", "failed"], {
+    status: "executing",
+  });
+  try {
+    const result = await runAction(action.tool, config, action.arguments, false);
+    return approvalQueue.finish(id, { status: "approved", result });
+  } catch (error: unknown) {
+    await approvalQueue.finish(id, {
+      status: "failed",
+      error: toTwitterServiceError(error).toJSON(),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Replace some arguments of an open action and check it again with a dry run
+ */
+async function editAction(
+  id: string,
+  changes: Record<string, unknown>,
+  config: Config
+): Promise<PendingAction> {
+  const action = approvalQueue.get(id);
+  await assertActingUser(action, config);
+  const args = { ...action.arguments, ...changes };
+  const preview = (await runAction(action.tool, config, args, true)) as DryRun;
+  return approvalQueue.update(id, ["pending", "failed"], {
+    arguments: args,
+    requests: preview.requests,
+    status: "pending",
+    error: undefined,
+  });
+}
+
+/**
+ * Describe a held action for the approval prompt
+ */
+function describeAction(action: PendingAction): string {
+  const requests = action.requests.map(
+    ({ method, endpoint, body }) =>
+      `${method} ${endpoint}${body ? ` ${JSON.stringify(body)}` : ""}`
+  );
+  return [`Approve ${action.tool} as @${action.username}?`, "", ...requests].join("\n");
+}
+
+/**
+ * Render a service result as pretty-printed JSON text
+ */
+function jsonResult(data: unknown): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+/**
+ * Build the tool result for a service call. Failures are returned as `isError`
+ * results carrying a machine-readable error code.
+ * @param present Turns the service result into the tool result (default: JSON text)
+ */
+async function toolResult<T>(
+  operation: () => Promise<T>,
+  present: (data: T) => CallToolResult = jsonResult
+): Promise<CallToolResult> {
+  try {
+    return present(await operation());
+  } catch (error: unknown) {
+    const serviceError = toTwitterServiceError(error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ error: serviceError.toJSON() }, null, 2),
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Map an MCP logging level onto the closest logger level
+ */
+function toLogLevel(level: LoggingLevel): LogLevel {
+  switch (level) {
+    case "debug":
+      return "debug";
+    case "info":
+    case "notice":
+      return "info";
+    case "warning":
+      return "warn";
+    default:
+      return "error";
+  }
+}
+
+/**
+ * The credentials a connection may act with
+ */
+export type SessionAccess = {
+  /** Used by tool calls that select no account, e.g. the bearer token an HTTP session was opened with */
+  config?: Config;
+  /** The registered accounts the session may select with `account`: aliases, or `*` for all */
+  accounts: string[] | "*";
+  /** The account used by tool calls that select none; always allowed */
+  defaultAccount?: string;
+  /**
+   * Whether tool calls without credentials fall back to the environment
+   * credentials. Only for the local stdio connection: a network client must
+   * never act as the server's own account.
+   */
+  serverCredentials: boolean;
+};
+
+/**
+ * The access of the local stdio connection: the environment credentials,
+ * TWITTER_DEFAULT_ACCOUNT and the aliases listed in STDIO_ACCOUNTS
+ * (comma-separated, or `*` for every registered account)
+ */
+export function stdioAccess(): SessionAccess {
+  const accounts = process.env.STDIO_ACCOUNTS?.trim() ?? "";
+  return {
+    accounts:
+      accounts === "*"
+        ? "*"
+        : accounts
+            .split(",")
+            .map((alias) => alias.trim())
+            .filter(Boolean),
+    defaultAccount: process.env.TWITTER_DEFAULT_ACCOUNT || undefined,
+    serverCredentials: true,
+  };
+}
+
+/**
+ * Create an MCP server with all Twitter tools registered.
+ * One server is created per connection (stdio, or each HTTP session).
+ * @param access The credentials the connection may act with (default: the
+ *   stdio access)
+ * @returns The MCP server, ready to be connected to a transport
+ */
+export function createServer(access: SessionAccess = stdioAccess()): McpServer {
+  const server = new McpServer(
+    {
+      name: "@redzumi/twitter-mcp",
+      version: "1.0.3",
+    },
+    {
+      capabilities: {
+        logging: {},
+        tools: {},
+      },
+    }
+  );
+
+  /**
+   * Whether the session may act as a registered account
+   */
+  const mayUse = (alias: string): boolean =>
+    access.accounts === "*" ||
+    access.accounts.includes(alias) ||
+    alias === access.defaultAccount;
+
+  /**
+   * Pick the credentials for a tool call: a registered account the session
+   * may use, then the deprecated per-call tokens, then the session
+   * credentials, then the default account, then the environment credentials
+   * if the session may use them
+   */
+  const configFor = (account?: string, config?: Config): Config => {
+    if (account) {
+      if (!mayUse(account)) {
+        throw new TwitterServiceError(
+          "forbidden",
+          `This session may not act as the account "${account}"`
+        );
+      }
+      return credentialStore.get(account);
+    }
+    if (config?.accessToken) {
+      logger.warn(
+        "Tool called with raw tokens in `config`, which is deprecated; register an account and pass `account` instead"
+      );
+      return config;
+    }
+    if (access.config?.accessToken) {
+      return access.config;
+    }
+    if (access.defaultAccount) {
+      return credentialStore.get(access.defaultAccount);
+    }
+    if (!access.serverCredentials) {
+      throw new TwitterServiceError(
+        "auth",
+        "This session has no credentials of its own; pass `account` to act as a registered account"
+      );
+    }
+    return {};
+  };
+
+  // Tags the log entries of this session's tool calls, the only ones forwarded to its client
+  const logScope = {};
+
+  /**
+   * Run a service call with the credentials selected by the tool arguments.
+   * A token pair rotated during the call is saved for registered accounts;
+   * otherwise it is returned in `_meta.refreshedTokens` so the caller can persist it.
+   */
+  const runTool = async <T>(
+    selector: { account?: string; config?: Config },
+    operation: (config: Config) => Promise<T>,
+    present?: (data: T) => CallToolResult
+  ): Promise<CallToolResult> => {
+    let toolConfig: Config | undefined;
+    const result = await logger.runInScope(logScope, () =>
+      toolResult(async () => {
+        toolConfig = configFor(selector.account, selector.config);
+        return operation(toolConfig);
+      }, present)
+    );
+    if (!toolConfig) {
+      return result;
+    }
+
+    const refreshedTokens = twitterService.consumeRefreshedTokens(toolConfig);
+    if (!refreshedTokens) {
+      return result;
+    }
+    if (credentialStore.owns(toolConfig)) {
+      credentialStore.persist();
+      return result;
+    }
+    return { ...result, _meta: { refreshedTokens } };
+  };
+
+  /**
+   * Run a tool that acts with no credentials, e.g. one reporting server state
+   */
+  const runLocal = <T>(
+    operation: () => Promise<T>,
+    present?: (data: T) => CallToolResult
+  ): Promise<CallToolResult> =>
+    logger.runInScope(logScope, () => toolResult(operation, present));
+
+  /**
+   * Put a held action to the human at the client. Without an answer, e.g.
+   * when the prompt is dismissed, the action stays pending for approve_action.
+   */
+  const reviewAction = async (
+    action: PendingAction,
+    config: Config
+  ): Promise<PendingAction> => {
+    let response;
+    try {
+      response = await server.server.elicitInput({
+        message: describeAction(action),
+        requestedSchema: {
+          type: "object",
+          properties: {
+            decision: {
+              type: "string",
+              title: "Decision",
+              enum: ["approve", "reject"],
+            },
+            reason: {
+              type: "string",
+              title: "Reason",
+              description: "Why the action is rejected",
+            },
+          },
+          required: ["decision"],
+        },
+      });
+    } catch (error: unknown) {
+      logger.warn("Approval prompt failed, the action stays pending", error);
+      return action;
+    }
+    if (response.action !== "accept") {
+      return action;
+    }
+    if (response.content?.decision === "approve") {
+      return sendAction(action.id, config);
+    }
+    const reason = response.content?.reason;
+    return approvalQueue.update(action.id, ["pending"], {
+      status: "rejected",
+      reason: typeof reason === "string" && reason ? reason : undefined,
+    });
+  };
+
+  /**
+   * Run a write tool that can be held for approval. When APPROVAL_REQUIRED
+   * covers it, the call is queued instead of sent; dry runs send nothing and
+   * are never queued. A call no one could approve is refused rather than
+   * queued.
+   */
+  const runWrite = (
+    tool: ApprovableTool,
+    selector: { account?: string; config?: Config },
+    args: Record<string, unknown>,
+    dryRun: boolean
+  ): Promise<CallToolResult> =>
+    runTool(selector, async (toolConfig) => {
+      if (dryRunEnabled(dryRun) || !approvalQueue.requiresApproval(tool)) {
+        return runAction(tool, toolConfig, args, dryRun);
+      }
+      const elicit = Boolean(
+        APPROVAL_ELICITATION && server.server.getClientCapabilities()?.elicitation?.form
+      );
+      if (!elicit && !APPROVAL_REVIEW_TOOLS && !APPROVAL_SHARED) {
+        throw new TwitterServiceError(
+          "forbidden",
+          `${tool} needs approval, but nothing can approve it: this client cannot be asked (APPROVAL_ELICITATION), ` +
+            "the review tools are off (APPROVAL_REVIEW_TOOLS) and no reviewer's server shares the queue (APPROVAL_FILE)"
+        );
+      }
+      const action = await holdAction(tool, toolConfig, args);
+      return elicit ? reviewAction(action, toolConfig) : action;
+    });
+
+  // Define Twitter tools
+  server.registerTool(
+    "get_tweets_by_userid",
+    {
+      description: "Get tweets by user ID",
+      inputSchema: {
+        userId: z.string().describe("The Twitter user ID to search for tweets"),
+        exclude: z
+          .array(z.enum(["retweets", "replies"]))
+          .optional()
+          .describe("The types of tweets to exclude from the search"),
+        maxResults: z
+          .number()
+          .optional()
+          .describe(
+            "The number of tweets per page (5-100). Default: 10, or 100 when fetching several pages"
+          ),
+        ...pagingShape,
+        ...tweetFieldsShape,
+        format: formatSchema,
+        bypassCache: bypassCacheSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: tweetPageSchema.shape,
+    },
+    async ({
+      account,
+      config,
+      userId,
+      exclude,
+      maxResults,
+      paginationToken,
+      limit,
+      fetchAll,
+      bypassCache,
+      format,
+      ...fields
+    }) =>
+      runTool(
+        { account, config },
+        (toolConfig) =>
+          twitterService.getUserTweets(
+            toolConfig,
+            userId,
+            { maxResults, paginationToken, limit, fetchAll },
+            exclude,
+            fields,
+            bypassCache
+          ),
+        presentTweetPage(format)
+      )
+  );
+
+  server.registerTool(
+    "get_tweet_by_id",
+    {
+      description: "Get a tweet by ID",
+      inputSchema: {
+        tweetId: z.string().describe("The ID of the tweet to retrieve"),
+        ...tweetFieldsShape,
+        format: formatSchema,
+        bypassCache: bypassCacheSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: tweetSchema.shape,
+    },
+    async ({ account, config, tweetId, bypassCache, format, ...fields }) =>
+      runTool(
+        { account, config },
+        (toolConfig) =>
+          twitterService.getTweet(toolConfig, tweetId, fields, bypassCache),
+        presentTweet(format)
+      )
+  );
+
+  server.registerTool(
+    "get_tweets",
+    {
+      description:
+        "Get several tweets by ID in one call. Results keep the order of the IDs; missing or hidden tweets carry an error",
+      inputSchema: {
+        tweetIds: z
+          .array(z.string())
+          .min(1)
+          .describe("The IDs of the tweets to retrieve, fetched 100 per request"),
+        ...tweetFieldsShape,
+        format: formatSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: tweetLookupSchema.shape,
+    },
+    async ({ account, config, tweetIds, format, ...fields }) =>
+      runTool(
+        { account, config },
+        (toolConfig) => twitterService.getTweets(toolConfig, tweetIds, fields),
+        presentTweetLookup(format)
+      )
+  );
+
+  server.tool(
+    "get_conversation",
+    "Get the conversation a tweet belongs to as a reply tree, from its first tweet. " +
+      "Replies come from recent search, so only the last 7 days are covered.",
+    {
+      tweetId: z.string().describe("The ID of any tweet in the conversation"),
+      maxDepth: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(10)
+        .describe("How many levels of replies to include below the first tweet"),
+      maxTweets: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(100)
+        .describe(`The most replies to fetch (at most ${MAX_PAGINATED_RESULTS})`),
+      format: formatSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, config, tweetId, maxDepth, maxTweets, format }) =>
+      runTool(
+        { account, config },
+        (toolConfig) =>
+          twitterService.getConversation(toolConfig, tweetId, {
+            maxDepth,
+            maxTweets,
+          }),
+        presentConversation(format)
+      )
+  );
+
+  server.registerTool(
+    "get_user_mentions",
+    {
+      description: "Get mentions by user ID",
+      inputSchema: {
+        userId: z.string().describe("The Twitter user ID to get mentions for"),
+        maxResults: z
+          .number()
+          .optional()
+          .describe(
+            "The number of mentions per page (5-100). Default: 10, or 100 when fetching several pages"
+          ),
+        ...pagingShape,
+        ...tweetFieldsShape,
+        format: formatSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: tweetPageSchema.shape,
+    },
+    async ({
+      account,
+      userId,
+      maxResults,
+      paginationToken,
+      limit,
+      fetchAll,
+      config,
+      format,
+      ...fields
+    }) =>
+      runTool(
+        { account, config },
+        (toolConfig) =>
+          twitterService.getUserMentionTimeline(
+            toolConfig,
+            userId,
+            { maxResults, paginationToken, limit, fetchAll },
+            fields
+          ),
+        presentTweetPage(format)
+      )
+  );
+
+  server.tool(
+    "quote_tweet",
+    "Quote a tweet",
+    {
+      tweetId: z.string().describe("The ID of the tweet to quote"),
+      replyText: z.string().describe("The text to include with the quote"),
+      media: mediaSchema,
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, tweetId, replyText, media, dryRun, config }) =>
+      runWrite(
+        "quote_tweet",
+        { account, config },
+        { tweetId, replyText, media },
+        dryRun
+      )
+  );
+
+  server.tool(
+    "reply_to_tweet",
+    "Reply to a tweet",
+    {
+      tweetId: z.string().describe("The ID of the tweet to reply to"),
+      replyText: z.string().describe("The text content of the reply"),
+      media: mediaSchema,
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, tweetId, replyText, media, dryRun, config }) =>
+      runWrite(
+        "reply_to_tweet",
+        { account, config },
+        { tweetId, replyText, media },
+        dryRun
+      )
+  );
+
+  server.tool(
+    "validate_tweet",
+    "Check a tweet text before posting: X's weighted length (URLs count as 23, CJK and emoji as 2), " +
+      "invalid characters and recent duplicates. Also lists the URLs, mentions and hashtags found",
+    {
+      text: z.string().describe("The text to check"),
+      hasMedia: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Whether media will be attached, which allows an empty text"),
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, text, hasMedia, config }) =>
+      runTool({ account, config }, async (toolConfig) =>
+        twitterService.validateTweet(toolConfig, text, { hasMedia })
+      )
+  );
+
+  server.tool(
+    "post_tweet",
+    "Post a tweet",
+    {
+      text: z.string().describe("The text content of the tweet"),
+      media: mediaSchema,
+      imageBase64: z
+        .string()
+        .optional()
+        .describe("Deprecated: pass `media` instead. Base64 encoded image to attach"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, text, media = [], imageBase64, dryRun, config }) =>
+      runWrite(
+        "post_tweet",
+        { account, config },
+        {
+          text,
+          media: [...(imageBase64 ? [{ source: imageBase64 }] : []), ...media],
+        },
+        dryRun
+      )
+  );
+
+  server.tool(
+    "post_thread",
+    "Post a thread as a chain of replies. Parts longer than one tweet are split at sentence boundaries",
+    {
+      parts: threadPartsSchema,
+      numbering: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Append ' i/n' to every tweet"),
+      rollbackOnFailure: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Delete the tweets already posted if a later one fails"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({
+      account,
+      parts,
+      numbering,
+      rollbackOnFailure,
+      dryRun,
+      config,
+    }) =>
+      runWrite(
+        "post_thread",
+        { account, config },
+        { parts, numbering, rollbackOnFailure },
+        dryRun
+      )
+  );
+
+  // Scheduled posting
+  server.tool(
+    "schedule_tweet",
+    "Schedule a tweet (`text`) or a thread (`parts`) to be posted later by the server, " +
+      "without keeping a client connected. The post is checked when it is scheduled",
+    {
+      text: z.string().optional().describe("The text of the tweet"),
+      media: mediaSchema,
+      parts: threadPartsSchema
+        .optional()
+        .describe("The thread to post instead of a single tweet, in order"),
+      numbering: z
+        .boolean()
+        .optional()
+        .describe("Append ' i/n' to every tweet of the thread"),
+      rollbackOnFailure: z
+        .boolean()
+        .optional()
+        .describe("Delete the tweets of the thread already posted if a later one fails"),
+      at: z
+        .string()
+        .describe(
+          "When to post, in ISO 8601: a wall-clock time such as 2026-10-20T09:00 read in `timeZone`, " +
+            "or an instant with an offset such as 2026-10-20T09:00:00+02:00"
+        ),
+      timeZone: z
+        .string()
+        .optional()
+        .describe(`IANA time zone of \`at\`, e.g. Europe/Berlin (default: ${DEFAULT_TIME_ZONE})`),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, config, dryRun, ...args }) =>
+      runWrite("schedule_tweet", { account, config }, args, dryRun)
+  );
+
+  server.tool(
+    "list_scheduled",
+    "List scheduled tweets and threads, soonest first",
+    {
+      status: z
+        .enum(JOB_STATUSES)
+        .optional()
+        .default("scheduled")
+        .describe("Which posts to list (default: scheduled)"),
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ status, account, config }) =>
+      runTool({ account, config }, async (toolConfig) => {
+        const me = await twitterService.getAuthenticatedUser(toolConfig);
+        return scheduler.list(status, me.id);
+      })
+  );
+
+  server.tool(
+    "cancel_scheduled",
+    "Cancel a scheduled post before it is posted",
+    {
+      jobId: z.string().describe("The ID of the scheduled post"),
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ jobId, account, config }) =>
+      runTool({ account, config }, async (toolConfig) => {
+        const me = await twitterService.getAuthenticatedUser(toolConfig);
+        return scheduler.cancel(jobId, me.id);
+      })
+  );
+
+  server.tool(
+    "reschedule",
+    "Move a scheduled post to another time. Canceled, failed and missed posts are scheduled again",
+    {
+      jobId: z.string().describe("The ID of the scheduled post"),
+      at: z
+        .string()
+        .describe(
+          "The new time in ISO 8601, as a wall-clock time read in `timeZone` or with an offset"
+        ),
+      timeZone: z
+        .string()
+        .optional()
+        .describe("IANA time zone of `at` (default: the time zone the post was scheduled in)"),
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ jobId, at, timeZone, account, config }) =>
+      runTool({ account, config }, async (toolConfig) => {
+        const me = await twitterService.getAuthenticatedUser(toolConfig);
+        return scheduler.reschedule(jobId, me.id, at, timeZone);
+      })
+  );
+
+  server.tool(
+    "like_tweet",
+    "Like a tweet",
+    {
+      tweetId: z.string().describe("The ID of the tweet to like"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, tweetId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.likeTweet(toolConfig, tweetId, dryRun)
+      )
+  );
+
+  server.tool(
+    "unlike_tweet",
+    "Remove a like from a tweet",
+    {
+      tweetId: z.string().describe("The ID of the tweet to unlike"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, tweetId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.unlikeTweet(toolConfig, tweetId, dryRun)
+      )
+  );
+
+  server.tool(
+    "retweet",
+    "Retweet a tweet",
+    {
+      tweetId: z.string().describe("The ID of the tweet to retweet"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, tweetId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.retweet(toolConfig, tweetId, dryRun)
+      )
+  );
+
+  server.tool(
+    "undo_retweet",
+    "Undo a retweet",
+    {
+      tweetId: z.string().describe("The ID of the retweeted tweet"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, tweetId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.undoRetweet(toolConfig, tweetId, dryRun)
+      )
+  );
+
+  server.tool(
+    "delete_tweet",
+    "Delete a tweet posted by the authenticated account. " +
+      "Tweets posted by other accounts are refused.",
+    {
+      tweetId: z.string().describe("The ID of the tweet to delete"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, tweetId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.deleteTweet(toolConfig, tweetId, dryRun)
+      )
+  );
+
+  // Bookmark tools
+  server.tool(
+    "bookmark_tweet",
+    "Bookmark a tweet",
+    {
+      tweetId: z.string().describe("The ID of the tweet to bookmark"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, tweetId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.bookmarkTweet(toolConfig, tweetId, dryRun)
+      )
+  );
+
+  server.tool(
+    "remove_bookmark",
+    "Remove a tweet from the bookmarks",
+    {
+      tweetId: z.string().describe("The ID of the bookmarked tweet"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, tweetId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.removeBookmark(toolConfig, tweetId, dryRun)
+      )
+  );
+
+  server.registerTool(
+    "get_bookmarks",
+    {
+      description: "Get the bookmarks of the authenticated user, newest first",
+      inputSchema: {
+        maxResults: z
+          .number()
+          .optional()
+          .describe(
+            "The number of tweets per page (1-100). Default: 10, or 100 when fetching several pages"
+          ),
+        ...pagingShape,
+        ...tweetFieldsShape,
+        format: formatSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: tweetPageSchema.shape,
+    },
+    async ({
+      account,
+      maxResults,
+      paginationToken,
+      limit,
+      fetchAll,
+      config,
+      format,
+      ...fields
+    }) =>
+      runTool(
+        { account, config },
+        (toolConfig) =>
+          twitterService.getBookmarks(
+            toolConfig,
+            { maxResults, paginationToken, limit, fetchAll },
+            fields
+          ),
+        presentTweetPage(format)
+      )
+  );
+
+  // New tools for user management
+  server.tool(
+    "follow_user",
+    "Follow a user",
+    {
+      targetUserId: z.string().describe("The ID of the user to follow"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, targetUserId, dryRun, config }) =>
+      runWrite("follow_user", { account, config }, { targetUserId }, dryRun)
+  );
+
+  server.tool(
+    "unfollow_user",
+    "Unfollow a user",
+    {
+      targetUserId: z.string().describe("The ID of the user to unfollow"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, targetUserId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.unfollowUser(toolConfig, targetUserId, dryRun)
+      )
+  );
+
+  server.registerTool(
+    "get_followers",
+    {
+      description: "Get the followers of a user, most recent first",
+      inputSchema: {
+        userId: z
+          .string()
+          .optional()
+          .describe("The ID of the user (default: the authenticated user)"),
+        maxResults: z
+          .number()
+          .optional()
+          .describe(
+            "The number of users per page (1-1000). Default: 10, or 1000 when fetching several pages"
+          ),
+        ...pagingShape,
+        ...userFieldsShape,
+        format: formatSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: userPageSchema.shape,
+    },
+    async ({
+      account,
+      userId,
+      maxResults,
+      paginationToken,
+      limit,
+      fetchAll,
+      config,
+      format,
+      ...fields
+    }) =>
+      runTool(
+        { account, config },
+        (toolConfig) =>
+          twitterService.getFollowers(
+            toolConfig,
+            userId,
+            { maxResults, paginationToken, limit, fetchAll },
+            fields
+          ),
+        presentUserPage(format)
+      )
+  );
+
+  server.registerTool(
+    "get_following",
+    {
+      description: "Get the users a user follows, most recent first",
+      inputSchema: {
+        userId: z
+          .string()
+          .optional()
+          .describe("The ID of the user (default: the authenticated user)"),
+        maxResults: z
+          .number()
+          .optional()
+          .describe(
+            "The number of users per page (1-1000). Default: 10, or 1000 when fetching several pages"
+          ),
+        ...pagingShape,
+        ...userFieldsShape,
+        format: formatSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: userPageSchema.shape,
+    },
+    async ({
+      account,
+      userId,
+      maxResults,
+      paginationToken,
+      limit,
+      fetchAll,
+      config,
+      format,
+      ...fields
+    }) =>
+      runTool(
+        { account, config },
+        (toolConfig) =>
+          twitterService.getFollowing(
+            toolConfig,
+            userId,
+            { maxResults, paginationToken, limit, fetchAll },
+            fields
+          ),
+        presentUserPage(format)
+      )
+  );
+
+  server.tool(
+    "get_relationship",
+    "Check whether the authenticated user follows, is followed by, blocks or mutes another user",
+    {
+      targetUserId: z.string().describe("The ID of the other user"),
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, targetUserId, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.getRelationship(toolConfig, targetUserId)
+      )
+  );
+
+  server.registerTool(
+    "get_user_by_username",
+    {
+      description: "Get a user by username",
+      inputSchema: {
+        username: z.string().describe("The Twitter username (without @ symbol)"),
+        ...userFieldsShape,
+        format: formatSchema,
+        bypassCache: bypassCacheSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: userSchema.shape,
+    },
+    async ({ account, username, bypassCache, config, format, ...fields }) =>
+      runTool(
+        { account, config },
+        (toolConfig) =>
+          twitterService.getUserByUsername(
+            toolConfig,
+            username,
+            fields,
+            bypassCache
+          ),
+        presentUser(format)
+      )
+  );
+
+  server.registerTool(
+    "get_users",
+    {
+      description:
+        "Get several users by ID or username in one call. Results keep the order of the input; missing or suspended users carry an error",
+      inputSchema: {
+        ids: z
+          .array(z.string())
+          .min(1)
+          .optional()
+          .describe("The IDs of the users, fetched 100 per request"),
+        usernames: z
+          .array(z.string())
+          .min(1)
+          .optional()
+          .describe("The usernames of the users (instead of ids), fetched 100 per request"),
+        ...userFieldsShape,
+        format: formatSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: userLookupSchema.shape,
+    },
+    async ({ account, config, ids, usernames, format, ...fields }) =>
+      runTool(
+        { account, config },
+        (toolConfig) =>
+          twitterService.getUsers(toolConfig, { ids, usernames }, fields),
+        presentUserLookup(format)
+      )
+  );
+
+  server.registerTool(
+    "search_tweets",
+    {
+      description: "Search for tweets",
+      inputSchema: {
+        query: z.string().describe("The search query"),
+        maxResults: z
+          .number()
+          .optional()
+          .describe(
+            "The number of results per page (10-100). Default: 10, or 100 when fetching several pages"
+          ),
+        ...pagingShape,
+        ...tweetFieldsShape,
+        format: formatSchema,
+        bypassCache: bypassCacheSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: tweetPageSchema.shape,
+    },
+    async ({
+      account,
+      query,
+      maxResults,
+      paginationToken,
+      limit,
+      fetchAll,
+      bypassCache,
+      config,
+      format,
+      ...fields
+    }) =>
+      runTool(
+        { account, config },
+        (toolConfig) =>
+          twitterService.searchTweets(
+            toolConfig,
+            query,
+            { maxResults, paginationToken, limit, fetchAll },
+            fields,
+            bypassCache
+          ),
+        presentTweetPage(format)
+      )
+  );
+
+  server.tool(
+    "get_trending_topics",
+    "Get trending topics",
+    {
+      woeid: z
+        .number()
+        .optional()
+        .default(1)
+        .describe(
+          "The 'Where On Earth ID' (WOEID) for the location (1 for worldwide)"
+        ),
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, woeid, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.getTrendingTopics(toolConfig, woeid)
+      )
+  );
+
+  // List management tools
+  server.tool(
+    "create_list",
+    "Create a list",
+    {
+      name: z.string().describe("The name of the list"),
+      description: z
+        .string()
+        .optional()
+        .describe("Optional description for the list"),
+      isPrivate: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Whether the list should be private"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, name, description, isPrivate, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.createList(
+          toolConfig,
+          name,
+          description,
+          isPrivate,
+          dryRun
+        )
+      )
+  );
+
+  server.tool(
+    "add_list_member",
+    "Add a member to a list",
+    {
+      listId: z.string().describe("The ID of the list"),
+      userId: z.string().describe("The ID of the user to add"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, listId, userId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.addListMember(toolConfig, listId, userId, dryRun)
+      )
+  );
+
+  server.tool(
+    "remove_list_member",
+    "Remove a member from a list",
+    {
+      listId: z.string().describe("The ID of the list"),
+      userId: z.string().describe("The ID of the user to remove"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, listId, userId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.removeListMember(toolConfig, listId, userId, dryRun)
+      )
+  );
+
+  server.tool(
+    "get_owned_lists",
+    "Get the lists owned by the authenticated user",
+    {
+      maxResults: z
+        .number()
+        .optional()
+        .default(100)
+        .describe("Number of lists per page (1-100)"),
+      ...pagingShape,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, maxResults, paginationToken, limit, fetchAll, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.getOwnedLists(toolConfig, {
+          maxResults,
+          paginationToken,
+          limit,
+          fetchAll,
+        })
+      )
+  );
+
+  server.tool(
+    "get_list",
+    "Get a list by ID, with its owner",
+    {
+      listId: z.string().describe("The ID of the list"),
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, listId, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.getList(toolConfig, listId)
+      )
+  );
+
+  server.tool(
+    "update_list",
+    "Update the name, description or visibility of a list owned by the authenticated user",
+    {
+      listId: z.string().describe("The ID of the list"),
+      name: z.string().optional().describe("The new name of the list"),
+      description: z
+        .string()
+        .optional()
+        .describe("The new description of the list"),
+      isPrivate: z
+        .boolean()
+        .optional()
+        .describe("Whether the list should be private"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({
+      account,
+      listId,
+      name,
+      description,
+      isPrivate,
+      dryRun,
+      config,
+    }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.updateList(
+          toolConfig,
+          listId,
+          { name, description, isPrivate },
+          dryRun
+        )
+      )
+  );
+
+  server.tool(
+    "delete_list",
+    "Delete a list owned by the authenticated user",
+    {
+      listId: z.string().describe("The ID of the list"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, listId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.deleteList(toolConfig, listId, dryRun)
+      )
+  );
+
+  server.registerTool(
+    "get_list_members",
+    {
+      description: "Get the members of a list",
+      inputSchema: {
+        listId: z.string().describe("The ID of the list"),
+        maxResults: z
+          .number()
+          .optional()
+          .describe(
+            "The number of users per page (1-100). Default: 10, or 100 when fetching several pages"
+          ),
+        ...pagingShape,
+        ...userFieldsShape,
+        format: formatSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: userPageSchema.shape,
+    },
+    async ({
+      account,
+      listId,
+      maxResults,
+      paginationToken,
+      limit,
+      fetchAll,
+      config,
+      format,
+      ...fields
+    }) =>
+      runTool(
+        { account, config },
+        (toolConfig) =>
+          twitterService.getListMembers(
+            toolConfig,
+            listId,
+            { maxResults, paginationToken, limit, fetchAll },
+            fields
+          ),
+        presentUserPage(format)
+      )
+  );
+
+  server.registerTool(
+    "get_list_tweets",
+    {
+      description: "Get the tweets of a list's timeline, newest first",
+      inputSchema: {
+        listId: z.string().describe("The ID of the list"),
+        maxResults: z
+          .number()
+          .optional()
+          .describe(
+            "The number of tweets per page (1-100). Default: 10, or 100 when fetching several pages"
+          ),
+        ...pagingShape,
+        ...tweetFieldsShape,
+        format: formatSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: tweetPageSchema.shape,
+    },
+    async ({
+      account,
+      listId,
+      maxResults,
+      paginationToken,
+      limit,
+      fetchAll,
+      config,
+      format,
+      ...fields
+    }) =>
+      runTool(
+        { account, config },
+        (toolConfig) =>
+          twitterService.getListTweets(
+            toolConfig,
+            listId,
+            { maxResults, paginationToken, limit, fetchAll },
+            fields
+          ),
+        presentTweetPage(format)
+      )
+  );
+
+  server.tool(
+    "get_list_memberships",
+    "Get the lists a user is a member of",
+    {
+      userId: z
+        .string()
+        .optional()
+        .describe("The ID of the user (default: the authenticated user)"),
+      maxResults: z
+        .number()
+        .optional()
+        .default(100)
+        .describe("Number of lists per page (1-100)"),
+      ...pagingShape,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({
+      account,
+      userId,
+      maxResults,
+      paginationToken,
+      limit,
+      fetchAll,
+      config,
+    }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.getListMemberships(toolConfig, userId, {
+          maxResults,
+          paginationToken,
+          limit,
+          fetchAll,
+        })
+      )
+  );
+
+  server.tool(
+    "follow_list",
+    "Follow a list",
+    {
+      listId: z.string().describe("The ID of the list to follow"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, listId, dryRun, config }) =>
+      runWrite("follow_list", { account, config }, { listId }, dryRun)
+  );
+
+  server.tool(
+    "unfollow_list",
+    "Unfollow a list",
+    {
+      listId: z.string().describe("The ID of the list to unfollow"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, listId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.setListFollowed(toolConfig, listId, false, dryRun)
+      )
+  );
+
+  server.tool(
+    "pin_list",
+    "Pin a list for the authenticated user",
+    {
+      listId: z.string().describe("The ID of the list to pin"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, listId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.setListPinned(toolConfig, listId, true, dryRun)
+      )
+  );
+
+  server.tool(
+    "unpin_list",
+    "Unpin a list for the authenticated user",
+    {
+      listId: z.string().describe("The ID of the list to unpin"),
+      dryRun: dryRunSchema,
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, listId, dryRun, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.setListPinned(toolConfig, listId, false, dryRun)
+      )
+  );
+
+  // Approval queue tools
+  server.tool(
+    "list_pending_actions",
+    "List the write tool calls held for approval (see APPROVAL_REQUIRED), " +
+      "with the requests approving each one would send",
+    {
+      status: z
+        .enum(ACTION_STATUSES)
+        .optional()
+        .default("pending")
+        .describe("Which actions to list (default: pending)"),
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ status, account, config }) =>
+      runTool({ account, config }, async (toolConfig) => {
+        const me = await twitterService.getAuthenticatedUser(toolConfig);
+        return approvalQueue.list(status, me.id);
+      })
+  );
+
+  if (APPROVAL_REVIEW_TOOLS) {
+    server.tool(
+      "approve_action",
+      "Approve a held action and send it. It is sent as the account it was queued as; " +
+        "a failed action stays open and can be approved again, edited or rejected",
+      {
+        actionId: z.string().describe("The ID of the pending action"),
+        account: accountSchema,
+        config: configSchema,
+      },
+      async ({ actionId, account, config }) =>
+        runTool(
+          { account: account ?? approvalQueue.find(actionId)?.account, config },
+          (toolConfig) => sendAction(actionId, toolConfig)
+        )
+    );
+
+    server.tool(
+      "reject_action",
+      "Reject a held action, so it is never sent",
+      {
+        actionId: z.string().describe("The ID of the pending action"),
+        reason: z.string().optional().describe("Why the action is rejected"),
+        account: accountSchema,
+        config: configSchema,
+      },
+      async ({ actionId, reason, account, config }) =>
+        runTool(
+          { account: account ?? approvalQueue.find(actionId)?.account, config },
+          async (toolConfig) => {
+            await assertActingUser(approvalQueue.get(actionId), toolConfig);
+            return approvalQueue.update(actionId, ["pending", "failed"], {
+              status: "rejected",
+              reason,
+            });
+          }
+        )
+    );
+
+    server.tool(
+      "edit_action",
+      "Change the arguments of a held action before approving it. The action is checked again " +
+        "and its requests are updated",
+      {
+        actionId: z.string().describe("The ID of the pending action"),
+        arguments: z
+          .record(z.unknown())
+          .describe(
+            'The tool arguments to replace, e.g. { "text": "..." } for post_tweet or { "replyText": "..." } for reply_to_tweet'
+          ),
+        account: accountSchema,
+        config: configSchema,
+      },
+      async ({ actionId, arguments: changes, account, config }) =>
+        runTool(
+          { account: account ?? approvalQueue.find(actionId)?.account, config },
+          (toolConfig) => editAction(actionId, changes, toolConfig)
+        )
+    );
+  }
+
+  server.tool(
+    "get_rate_limit_status",
+    "Get the remaining rate limit quota per endpoint for the current credentials. " +
+      "Only endpoints that have been called since the server started are reported.",
+    {
+      account: accountSchema,
+      config: configSchema,
+    },
+    async ({ account, config }) =>
+      runTool({ account, config }, (toolConfig) =>
+        twitterService.getRateLimitStatus(toolConfig)
+      )
+  );
+
+  server.registerTool(
+    "get_me",
+    {
+      description: "Get the profile of the authenticated account",
+      inputSchema: {
+        refresh: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Fetch the profile again instead of using the cached one"),
+        format: formatSchema,
+        account: accountSchema,
+        config: configSchema,
+      },
+      outputSchema: userSchema.shape,
+    },
+    async ({ account, refresh, config, format }) =>
+      runTool(
+        { account, config },
+        (toolConfig) => twitterService.getAuthenticatedUser(toolConfig, refresh),
+        presentUser(format)
+      )
+  );
+
+  server.tool(
+    "get_cache_stats",
+    "Get the response cache backend, size and hit/miss counters per tool",
+    {},
+    async () => runLocal(async () => twitterService.getCacheStats())
+  );
+
+  server.tool(
+    "list_accounts",
+    "List the accounts this server can act as, with their handle and user ID. " +
+      "Pass an alias as `account` to other tools to act as that account.",
+    {},
+    async () =>
+      runLocal(async () => {
+        const accounts: { alias: string | null; config: Config }[] =
+          credentialStore.aliases().filter(mayUse).map((alias) => ({
+            alias,
+            config: credentialStore.get(alias),
+          }));
+        if (
+          access.serverCredentials &&
+          getAvailableAuthModes().includes("oauth1-user")
+        ) {
+          // The OAuth 1.0a user context from the environment, used when no account is selected
+          accounts.push({ alias: null, config: {} });
+        }
+
+        return Promise.all(
+          accounts.map(async ({ alias, config }) => {
+            const source = alias === null ? "environment" : "store";
+            try {
+              const user = await twitterService.getAuthenticatedUser(config);
+              if (twitterService.consumeRefreshedTokens(config)) {
+                credentialStore.persist();
+              }
+              return {
+                alias,
+                source,
+                default: alias === (access.defaultAccount ?? null),
+                id: user.id,
+                username: user.username,
+                name: user.name,
+              };
+            } catch (error: unknown) {
+              return { alias, source, error: toTwitterServiceError(error).toJSON() };
+            }
+          })
+        );
+      })
+  );
+
+  // Forward the log entries of this session's tool calls to the client once it
+  // asks for them via logging/setLevel
+  const forwardLog: LogForwarder = (entry) =>
+    server.server.sendLoggingMessage({
+      level: entry.level === "warn" ? "warning" : entry.level,
+      logger: "twitter-mcp",
+      data: {
+        message: entry.message,
+        ...(entry.data !== undefined ? { data: entry.data } : {}),
+      },
+    });
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    logger.setForwarder(forwardLog, toLogLevel(request.params.level), logScope);
+    return {};
+  });
+  server.server.onclose = () => logger.removeForwarder(forwardLog);
+
+  return server;
+}
@@ -0,0 +1,396 @@
+import { randomBytes } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { TwitterServiceError } from "./errors.js";
+import { WriteRequest } from "./dryrun.js";
+import { withFileLock, writeFileAtomically } from "./filelock.js";
+import { logger } from "../logger.js";
+
+/**
+ * The write tools that can be held for approval
+ */
+export const APPROVABLE_TOOLS = [
+  "post_tweet",
+  "reply_to_tweet",
+  "quote_tweet",
+  "post_thread",
+  "schedule_tweet",
+  "follow_user",
+  "follow_list",
+] as const;
+
+export type ApprovableTool = (typeof APPROVABLE_TOOLS)[number];
+
+export const ACTION_STATUSES = [
+  "pending",
+  "executing",
+  "approved",
+  "rejected",
+  "failed",
+] as const;
+
+export type ActionStatus = (typeof ACTION_STATUSES)[number];
+
+// Finished actions kept for list_pending_actions; the oldest are dropped first
+const MAX_FINISHED_ACTIONS = 500;
+
+// An action executing for longer than this was interrupted, e.g. by a crash
+const EXECUTING_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * A write tool call held until a reviewer approves or rejects it
+ */
+export type PendingAction = {
+  id: string;
+  tool: ApprovableTool;
+  /** The tool arguments, without credentials */
+  arguments: Record<string, unknown>;
+  /** The registered account the action was queued with, if any */
+  account?: string;
+  /** The user the action acts as; approving needs credentials of this user */
+  userId: string;
+  username: string;
+  status: ActionStatus;
+  /** What approving the action sends, from a dry run */
+  requests: WriteRequest[];
+  /** ISO 8601 */
+  createdAt: string;
+  /** ISO 8601 */
+  updatedAt: string;
+  /** Why the action was rejected */
+  reason?: string;
+  /** The tool result once the action was approved and sent */
+  result?: unknown;
+  /** Why sending the approved action failed */
+  error?: ReturnType<TwitterServiceError["toJSON"]>;
+};
+
+/**
+ * Where the approval queue persists its actions
+ */
+export interface ApprovalBackend {
+  load(): PendingAction[];
+  /**
+   * Load the actions, let `change` return the actions to save, and save them,
+   * as one step no other server sharing the backend can interleave with.
+   * Nothing is saved if `change` throws.
+   */
+  transaction<T>(
+    change: (actions: PendingAction[]) => { actions: PendingAction[]; result: T }
+  ): Promise<T>;
+}
+
+/**
+ * Keeps actions in memory only, so pending actions are lost on restart
+ */
+export class MemoryApprovalBackend implements ApprovalBackend {
+  private actions: PendingAction[] = [];
+
+  public load(): PendingAction[] {
+    return this.actions;
+  }
+
+  public async transaction<T>(
+    change: (actions: PendingAction[]) => { actions: PendingAction[]; result: T }
+  ): Promise<T> {
+    const { actions, result } = change([...this.actions]);
+    this.actions = actions;
+    return result;
+  }
+}
+
+/**
+ * Persists actions to a JSON file, read again on every access so that
+ * several servers (e.g. the agent's and a reviewer's) can share the queue.
+ * Changes hold the file's lock and replace it atomically.
+ */
+export class JsonFileApprovalBackend implements ApprovalBackend {
+  constructor(private readonly path: string) {}
+
+  public load(): PendingAction[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+    return JSON.parse(readFileSync(this.path, "utf8"));
+  }
+
+  public async transaction<T>(
+    change: (actions: PendingAction[]) => { actions: PendingAction[]; result: T }
+  ): Promise<T> {
+    return withFileLock(this.path, () => {
+      const { actions, result } = change(this.load());
+      writeFileAtomically(this.path, JSON.stringify(actions, null, 2));
+      return result;
+    });
+  }
+}
+
+/**
+ * Whether an action's status is stale: it has been executing for longer than
+ * EXECUTING_TIMEOUT_MS, so the server sending it stopped
+ */
+function isInterrupted(action: PendingAction, now: number): boolean {
+  return (
+    action.status === "executing" &&
+    now - Date.parse(action.updatedAt) > EXECUTING_TIMEOUT_MS
+  );
+}
+
+/**
+ * Mark an interrupted action failed. It may or may not have been sent.
+ */
+function failInterrupted(action: PendingAction, now: number): PendingAction {
+  return {
+    ...action,
+    status: "failed",
+    error: new TwitterServiceError(
+      "unknown",
+      "The server stopped while sending this action. Check whether it was sent before approving it again"
+    ).toJSON(),
+    updatedAt: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * Whether a failed action left tweets posted, i.e. the first parts of a
+ * thread that were not rolled back. Sending it again would post them twice.
+ */
+function isPartlySent(action: PendingAction): boolean {
+  const details = action.error?.details as
+    | { posted?: unknown[]; rollback?: { failed: unknown[] } }
+    | undefined;
+  return (
+    Boolean(details?.posted?.length) &&
+    !(details?.rollback !== undefined && details.rollback.failed.length === 0)
+  );
+}
+
+/**
+ * Write tool calls waiting for a human decision, and the decisions taken
+ */
+export class ApprovalQueue {
+  constructor(
+    private readonly backend: ApprovalBackend,
+    private readonly gated: ReadonlySet<ApprovableTool>
+  ) {}
+
+  /**
+   * Whether calls of a tool are held for approval
+   */
+  public requiresApproval(tool: ApprovableTool): boolean {
+    return this.gated.has(tool);
+  }
+
+  /**
+   * Hold a tool call for approval
+   * @returns The pending action
+   */
+  public async enqueue(
+    action: Pick<
+      PendingAction,
+      "tool" | "arguments" | "account" | "userId" | "username" | "requests"
+    >
+  ): Promise<PendingAction> {
+    const now = new Date().toISOString();
+    const pending: PendingAction = {
+      // Short enough not to be masked as a credential in logs
+      id: randomBytes(8).toString("hex"),
+      ...action,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.modify((actions) => ({ actions: [...actions, pending], result: pending }));
+    logger.info("Action held for approval", {
+      id: pending.id,
+      tool: pending.tool,
+      username: pending.username,
+    });
+    return pending;
+  }
+
+  public find(id: string): PendingAction | undefined {
+    return this.load().find((action) => action.id === id);
+  }
+
+  /**
+   * Get an action by ID
+   */
+  public get(id: string): PendingAction {
+    const action = this.find(id);
+    if (!action) {
+      throw new TwitterServiceError("not_found", `No action with ID ${id}`);
+    }
+    return action;
+  }
+
+  /**
+   * The actions with a status, oldest first
+   * @param userId Only the actions acting as this user
+   */
+  public list(status?: ActionStatus, userId?: string): PendingAction[] {
+    return this.load().filter(
+        (action) =>
+          (status === undefined || action.status === status) &&
+          (userId === undefined || action.userId === userId)
+      );
+  }
+
+  /**
+   * Change an action that is still open, i.e. pending or failed. The status
+   * is checked and set in one step, so of two servers changing the same
+   * action only one succeeds. A failed thread that left tweets posted can
+   * only be rejected: sending it again would post them twice.
+   * @param from The statuses the action may be in, some of pending and failed
+   * @param changes The fields to replace
+   * @returns The updated action
+   */
+  public update(
+    id: string,
+    from: ("pending" | "failed")[],
+    changes: Partial<Omit<PendingAction, "id" | "createdAt" | "updatedAt">>
+  ): Promise<PendingAction> {
+    return this.modify((actions) => {
+      const index = actions.findIndex((action) => action.id === id);
+      if (index === -1) {
+        throw new TwitterServiceError("not_found", `No action with ID ${id}`);
+      }
+      const current = actions[index];
+      if (!(from as ActionStatus[]).includes(current.status)) {
+        throw new TwitterServiceError(
+          "validation",
+          `Action ${id} is ${current.status} and can no longer be changed`
+        );
+      }
+      if (
+        current.status === "failed" &&
+        changes.status !== "rejected" &&
+        isPartlySent(current)
+      ) {
+        throw new TwitterServiceError(
+          "validation",
+          `Action ${id} failed after posting some of its tweets, which sending it again would repost; reject it and post the remaining parts as a new thread`,
+          { details: current.error?.details }
+        );
+      }
+      const updated: PendingAction = {
+        ...current,
+        ...changes,
+        updatedAt: new Date().toISOString(),
+      };
+      actions[index] = updated;
+      return { actions, result: updated };
+    });
+  }
+
+  /**
+   * Record how sending an action ended. Unlike `update`, this applies to
+   * actions being sent.
+   */
+  public async finish(
+    id: string,
+    outcome:
+      | { status: "approved"; result: unknown }
+      | { status: "failed"; error: ReturnType<TwitterServiceError["toJSON"]> }
+  ): Promise<PendingAction> {
+    const updated = await this.modify((actions) => {
+      const index = actions.findIndex((action) => action.id === id);
+      if (index === -1) {
+        throw new TwitterServiceError("not_found", `No action with ID ${id}`);
+      }
+      const finished: PendingAction = {
+        ...actions[index],
+        ...outcome,
+        updatedAt: new Date().toISOString(),
+      };
+      actions[index] = finished;
+      return { actions, result: finished };
+    });
+    logger.info(`Approved action ${outcome.status === "approved" ? "sent" : "failed"}`, {
+      id,
+      tool: updated.tool,
+    });
+    return updated;
+  }
+
+  /**
+   * The actions, with interrupted ones shown as failed until the next change
+   * saves them so
+   */
+  private load(): PendingAction[] {
+    const now = Date.now();
+    return this.backend
+      .load()
+      .map((action) =>
+        isInterrupted(action, now) ? failInterrupted(action, now) : action
+      );
+  }
+
+  /**
+   * Change the actions in a backend transaction, marking interrupted ones
+   * failed and dropping the oldest finished ones beyond the maximum
+   */
+  private modify<T>(
+    change: (actions: PendingAction[]) => { actions: PendingAction[]; result: T }
+  ): Promise<T> {
+    return this.backend.transaction((stored) => {
+      const now = Date.now();
+      const loaded = stored.map((action) => {
+        if (!isInterrupted(action, now)) {
+          return action;
+        }
+        logger.warn("Interrupted action marked failed", { id: action.id });
+        return failInterrupted(action, now);
+      });
+      const { actions, result } = change(loaded);
+      const finished = actions.filter(
+        (action) => action.status === "approved" || action.status === "rejected"
+      );
+      const dropped = new Set(
+        finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_ACTIONS))
+      );
+      return { actions: actions.filter((action) => !dropped.has(action)), result };
+    });
+  }
+}
+
+/**
+ * Parse the tools needing approval from APPROVAL_REQUIRED: `all`, or a
+ * comma-separated list such as `post_tweet,follow_user`
+ */
+function readGatedTools(): Set<ApprovableTool> {
+  const raw = process.env.APPROVAL_REQUIRED?.trim();
+  if (!raw) {
+    return new Set();
+  }
+  if (raw === "all") {
+    return new Set(APPROVABLE_TOOLS);
+  }
+  const tools = new Set<ApprovableTool>();
+  for (const name of raw.split(",").map((tool) => tool.trim())) {
+    if ((APPROVABLE_TOOLS as readonly string[]).includes(name)) {
+      tools.add(name as ApprovableTool);
+    } else if (name) {
+      logger.warn(
+        `APPROVAL_REQUIRED names ${name}, which cannot be held for approval; expected one of ${APPROVABLE_TOOLS.join(", ")}`
+      );
+    }
+  }
+  return tools;
+}
+
+/**
+ * Create the approval queue from the environment: actions persisted in
+ * APPROVAL_FILE, or kept in memory
+ */
+function createApprovalQueue(): ApprovalQueue {
+  const file = process.env.APPROVAL_FILE;
+  return new ApprovalQueue(
+    file ? new JsonFileApprovalBackend(file) : new MemoryApprovalBackend(),
+    readGatedTools()
+  );
+}
+
+/**
+ * The shared approval queue
+ */
+export const approvalQueue = createApprovalQueue();
@@ -0,0 +1,249 @@
+import { createHash } from "node:crypto";
+import { ITwitterApiClientPlugin, TwitterApi } from "twitter-api-v2";
+import { TwitterServiceError } from "./errors.js";
+
+/**
+ * The credentials a call is made with: a registered account, the session
+ * credentials or the deprecated per-call tool `config` argument.
+ * An `accessSecret` marks an OAuth 1.0a user token.
+ */
+export type Config = {
+  accessToken?: string;
+  refreshToken?: string;
+  accessSecret?: string;
+};
+
+/**
+ * The kind of access a service method needs.
+ * - `user`: acts on behalf of an account (posting, liking, "me" lookups)
+ * - `read`: public read-only data, app-only bearer tokens are acceptable
+ */
+export type AccessLevel = "user" | "read";
+
+/**
+ * The authentication modes the server knows how to build a client for
+ */
+export type AuthMode = "oauth2-user" | "oauth1-user" | "app-only";
+
+export type ResolvedCredentials =
+  | { mode: "oauth2-user"; accessToken: string; refreshToken?: string }
+  | {
+      mode: "oauth1-user";
+      appKey: string;
+      appSecret: string;
+      accessToken: string;
+      accessSecret: string;
+    }
+  | { mode: "app-only"; bearerToken: string };
+
+type OAuth1Env = Extract<ResolvedCredentials, { mode: "oauth1-user" }>;
+
+/**
+ * A rotated OAuth 2.0 token pair returned after a refresh
+ */
+export type RefreshedTokens = {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  expiresAt: string;
+};
+
+/**
+ * Read the OAuth 1.0a user-context credentials from the environment
+ * @returns The credentials, or null if any of the four variables is missing
+ */
+function readOAuth1Env(): OAuth1Env | null {
+  const appKey = process.env.TWITTER_API_KEY;
+  const appSecret = process.env.TWITTER_API_KEY_SECRET;
+  const accessToken = process.env.TWITTER_ACCESS_TOKEN;
+  const accessSecret = process.env.TWITTER_ACCESS_TOKEN_SECRET;
+
+  if (!appKey || !appSecret || !accessToken || !accessSecret) {
+    return null;
+  }
+  return { mode: "oauth1-user", appKey, appSecret, accessToken, accessSecret };
+}
+
+/**
+ * Read the app-only bearer token from the environment
+ */
+function readBearerEnv(): string | null {
+  return process.env.TWITTER_BEARER_TOKEN || null;
+}
+
+/**
+ * Read the OAuth 2.0 client credentials used for token refresh from the environment.
+ * The client secret is only required for confidential clients.
+ */
+function readOAuth2ClientEnv(): { clientId: string; clientSecret?: string } | null {
+  const clientId = process.env.TWITTER_CLIENT_ID;
+  if (!clientId) {
+    return null;
+  }
+  return { clientId, clientSecret: process.env.TWITTER_CLIENT_SECRET || undefined };
+}
+
+/**
+ * Resolve which credentials to use for a call.
+ *
+ * Precedence:
+ * 1. User token from the config (OAuth 1.0a if it has an access secret, OAuth 2.0 otherwise)
+ * 2. OAuth 1.0a user context from the environment
+ * 3. App-only bearer token from the environment (read-only calls only)
+ *
+ * @param config The per-call configuration
+ * @param access The kind of access the calling method needs
+ * @returns The resolved credentials
+ */
+export function resolveCredentials(
+  config: Config,
+  access: AccessLevel
+): ResolvedCredentials {
+  if (config.accessToken && config.accessSecret) {
+    const appKey = process.env.TWITTER_API_KEY;
+    const appSecret = process.env.TWITTER_API_KEY_SECRET;
+    if (!appKey || !appSecret) {
+      throw new TwitterServiceError(
+        "auth",
+        "OAuth 1.0a account tokens need TWITTER_API_KEY and TWITTER_API_KEY_SECRET to be set"
+      );
+    }
+    return {
+      mode: "oauth1-user",
+      appKey,
+      appSecret,
+      accessToken: config.accessToken,
+      accessSecret: config.accessSecret,
+    };
+  }
+  if (config.accessToken) {
+    return {
+      mode: "oauth2-user",
+      accessToken: config.accessToken,
+      refreshToken: config.refreshToken,
+    };
+  }
+
+  const oauth1 = readOAuth1Env();
+  if (oauth1) {
+    return oauth1;
+  }
+
+  const bearerToken = readBearerEnv();
+  if (bearerToken && access === "read") {
+    return { mode: "app-only", bearerToken };
+  }
+
+  if (bearerToken) {
+    throw new TwitterServiceError(
+      "auth",
+      "This tool acts on behalf of a user and cannot use the app-only bearer token. " +
+        "Pass a registered account or set the TWITTER_API_KEY, TWITTER_API_KEY_SECRET, " +
+        "TWITTER_ACCESS_TOKEN and TWITTER_ACCESS_TOKEN_SECRET environment variables"
+    );
+  }
+  throw new TwitterServiceError(
+    "auth",
+    "No Twitter credentials available. Pass a registered account, set the OAuth 1.0a " +
+      "TWITTER_API_KEY/TWITTER_API_KEY_SECRET/TWITTER_ACCESS_TOKEN/TWITTER_ACCESS_TOKEN_SECRET " +
+      "environment variables, or set TWITTER_BEARER_TOKEN for read-only tools"
+  );
+}
+
+/**
+ * Build a Twitter client for resolved credentials
+ * @param credentials The credentials returned by resolveCredentials
+ * @param plugins Client plugins to install, e.g. rate limit tracking
+ * @returns A new Twitter client
+ */
+export function createClient(
+  credentials: ResolvedCredentials,
+  plugins: ITwitterApiClientPlugin[] = []
+): TwitterApi {
+  const settings = { plugins };
+  switch (credentials.mode) {
+    case "oauth2-user":
+      return new TwitterApi(credentials.accessToken, settings);
+    case "oauth1-user":
+      return new TwitterApi(
+        {
+          appKey: credentials.appKey,
+          appSecret: credentials.appSecret,
+          accessToken: credentials.accessToken,
+          accessSecret: credentials.accessSecret,
+        },
+        settings
+      );
+    case "app-only":
+      return new TwitterApi(credentials.bearerToken, settings);
+  }
+}
+
+/**
+ * A stable, non-reversible identifier for a credential, safe to use as a map key
+ * or to show to the client
+ */
+export function credentialKey(credentials: ResolvedCredentials): string {
+  const secret =
+    credentials.mode === "app-only"
+      ? credentials.bearerToken
+      : credentials.accessToken;
+  const digest = createHash("sha256").update(secret).digest("hex");
+  return `${credentials.mode}:${digest.slice(0, 12)}`;
+}
+
+/**
+ * Whether OAuth 2.0 user tokens can be refreshed with the configured client credentials
+ */
+export function canRefreshOAuth2Tokens(): boolean {
+  return readOAuth2ClientEnv() !== null;
+}
+
+/**
+ * Exchange an OAuth 2.0 refresh token for a new access/refresh token pair
+ * @param refreshToken The refresh token to exchange
+ * @returns The rotated token pair
+ */
+export async function refreshOAuth2Token(
+  refreshToken: string
+): Promise<RefreshedTokens> {
+  const clientEnv = readOAuth2ClientEnv();
+  if (!clientEnv) {
+    throw new TwitterServiceError(
+      "auth",
+      "Cannot refresh the access token: TWITTER_CLIENT_ID is not set"
+    );
+  }
+
+  const result = await new TwitterApi(clientEnv).refreshOAuth2Token(
+    refreshToken
+  );
+  if (!result.refreshToken) {
+    throw new TwitterServiceError(
+      "auth",
+      "Token refresh did not return a new refresh token (is the offline.access scope granted?)"
+    );
+  }
+
+  return {
+    accessToken: result.accessToken,
+    refreshToken: result.refreshToken,
+    expiresIn: result.expiresIn,
+    expiresAt: new Date(Date.now() + result.expiresIn * 1000).toISOString(),
+  };
+}
+
+/**
+ * Report which authentication modes can be used with the current environment.
+ * Per-call OAuth 2.0 user tokens are always available since they come from the caller.
+ */
+export function getAvailableAuthModes(): AuthMode[] {
+  const modes: AuthMode[] = ["oauth2-user"];
+  if (readOAuth1Env()) {
+    modes.push("oauth1-user");
+  }
+  if (readBearerEnv()) {
+    modes.push("app-only");
+  }
+  return modes;
+}
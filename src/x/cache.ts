@@ -0,0 +1,216 @@
+import { createRequire } from "node:module";
+import type { DatabaseSync } from "node:sqlite";
+import { logger } from "../logger.js";
+
+type CacheEntry = {
+  value: unknown;
+  /** Epoch milliseconds */
+  expiresAt: number;
+};
+
+/**
+ * Where cached responses are kept
+ */
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  size(): number;
+}
+
+/**
+ * In-memory cache evicting the least recently used entry beyond a maximum size
+ */
+export class LruCacheBackend implements CacheBackend {
+  public readonly name = "memory";
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  public get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark the entry as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  public set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  public size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Cache persisted to a SQLite file with the built-in `node:sqlite` module,
+ * so entries survive restarts
+ */
+export class SqliteCacheBackend implements CacheBackend {
+  public readonly name = "sqlite";
+
+  constructor(private readonly db: DatabaseSync) {
+    db.exec(
+      "CREATE TABLE IF NOT EXISTS response_cache (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER NOT NULL)"
+    );
+    db.prepare("DELETE FROM response_cache WHERE expires_at <= ?").run(Date.now());
+  }
+
+  public get(key: string): CacheEntry | undefined {
+    const row = this.db
+      .prepare("SELECT value, expires_at FROM response_cache WHERE key = ?")
+      .get(key) as { value: string; expires_at: number } | undefined;
+    return row
+      ? { value: JSON.parse(row.value), expiresAt: row.expires_at }
+      : undefined;
+  }
+
+  public set(key: string, entry: CacheEntry): void {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO response_cache (key, value, expires_at) VALUES (?, ?, ?)"
+      )
+      .run(key, JSON.stringify(entry.value), entry.expiresAt);
+  }
+
+  public delete(key: string): void {
+    this.db.prepare("DELETE FROM response_cache WHERE key = ?").run(key);
+  }
+
+  public size(): number {
+    const row = this.db
+      .prepare("SELECT COUNT(*) AS count FROM response_cache")
+      .get() as { count: number };
+    return row.count;
+  }
+}
+
+/**
+ * Default time-to-live per cached tool, in seconds. Override with CACHE_TTLS,
+ * e.g. `{"search_tweets": 10}`; a TTL of 0 disables caching for that tool.
+ */
+const DEFAULT_TTLS: Record<string, number> = {
+  get_tweet_by_id: 300,
+  get_user_by_username: 3600,
+  get_tweets_by_userid: 60,
+  search_tweets: 30,
+};
+
+function readTtls(): Record<string, number> {
+  try {
+    return { ...DEFAULT_TTLS, ...JSON.parse(process.env.CACHE_TTLS ?? "{}") };
+  } catch (error: unknown) {
+    logger.error("CACHE_TTLS is not valid JSON, using the default TTLs", error);
+    return DEFAULT_TTLS;
+  }
+}
+
+type CacheCounters = { hits: number; misses: number };
+
+/**
+ * Caches read-only API responses per tool with hit/miss counters
+ */
+export class ResponseCache {
+  private ttls = readTtls();
+  private counters = new Map<string, CacheCounters>();
+
+  constructor(private readonly backend: CacheBackend) {}
+
+  /**
+   * Return the cached response for a key, or load and cache it
+   * @param tool The tool the response belongs to, selects the TTL
+   * @param key The cache key, which must include the credential
+   * @param bypass Skip the lookup and refresh the cached entry
+   * @param load Fetches the response on a miss
+   */
+  public async wrap<T>(
+    tool: string,
+    key: string,
+    bypass: boolean,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const ttl = (this.ttls[tool] ?? 0) * 1000;
+    if (ttl <= 0) {
+      return load();
+    }
+
+    const counters = this.countersFor(tool);
+    const cacheKey = `${tool}:${key}`;
+    if (!bypass) {
+      const entry = this.backend.get(cacheKey);
+      if (entry && entry.expiresAt > Date.now()) {
+        counters.hits++;
+        return entry.value as T;
+      }
+      if (entry) {
+        this.backend.delete(cacheKey);
+      }
+    }
+
+    counters.misses++;
+    const value = await load();
+    this.backend.set(cacheKey, { value, expiresAt: Date.now() + ttl });
+    return value;
+  }
+
+  /**
+   * Hit/miss counters per tool since the server started
+   */
+  public stats() {
+    const tools = Object.fromEntries(
+      [...this.counters.entries()].map(([tool, { hits, misses }]) => [
+        tool,
+        {
+          hits,
+          misses,
+          hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+          ttlSeconds: this.ttls[tool],
+        },
+      ])
+    );
+    return { backend: this.backend.name, entries: this.backend.size(), tools };
+  }
+
+  private countersFor(tool: string): CacheCounters {
+    let counters = this.counters.get(tool);
+    if (!counters) {
+      counters = { hits: 0, misses: 0 };
+      this.counters.set(tool, counters);
+    }
+    return counters;
+  }
+}
+
+/**
+ * Create the response cache from the environment: a SQLite file when
+ * CACHE_FILE is set and `node:sqlite` is available, otherwise an in-memory
+ * LRU holding up to CACHE_MAX_ENTRIES entries (default: 1000)
+ */
+export function createResponseCache(): ResponseCache {
+  const file = process.env.CACHE_FILE;
+  if (file) {
+    try {
+      const require = createRequire(import.meta.url);
+      const { DatabaseSync } = require("node:sqlite") as typeof import("node:sqlite");
+      return new ResponseCache(new SqliteCacheBackend(new DatabaseSync(file)));
+    } catch (error: unknown) {
+      logger.warn("SQLite cache unavailable, falling back to memory", error);
+    }
+  }
+  return new ResponseCache(
+    new LruCacheBackend(Number(process.env.CACHE_MAX_ENTRIES ?? 1000))
+  );
+}
@@ -0,0 +1,99 @@
+import { ExpandedTweet } from "./fields.js";
+
+/**
+ * A tweet of a conversation with the replies to it
+ */
+export type ConversationNode<T = ExpandedTweet> = {
+  tweet: T;
+  /** 0 for the root */
+  depth: number;
+  children: ConversationNode<T>[];
+};
+
+export type Conversation<T = ExpandedTweet> = {
+  conversation_id: string;
+  /** Undefined if the root tweet is deleted or not visible */
+  root?: ConversationNode<T>;
+  /** Replies whose parent was not found, e.g. older than the search window */
+  orphans: ConversationNode<T>[];
+  meta: {
+    tweet_count: number;
+    /** Replies left out by the depth limit */
+    omitted: number;
+    /** Whether more replies exist than were fetched */
+    truncated: boolean;
+  };
+};
+
+function parentId(tweet: ExpandedTweet): string | undefined {
+  return tweet.referenced_tweets?.find((reference) => reference.type === "replied_to")
+    ?.id;
+}
+
+/**
+ * Arrange the tweets of a conversation into a reply tree, oldest replies first
+ * @param root The first tweet of the conversation, if found
+ * @param replies The other tweets of the conversation
+ * @param maxDepth Replies nested deeper than this are omitted
+ * @param truncated Whether the replies were cut short by a size limit
+ */
+export function buildConversation(
+  conversationId: string,
+  root: ExpandedTweet | undefined,
+  replies: ExpandedTweet[],
+  maxDepth: number,
+  truncated: boolean
+): Conversation {
+  const nodes = new Map<string, ConversationNode>();
+  for (const tweet of [...(root ? [root] : []), ...replies]) {
+    nodes.set(tweet.id, { tweet, depth: 0, children: [] });
+  }
+
+  const byId = (a: ConversationNode, b: ConversationNode) =>
+    BigInt(a.tweet.id) < BigInt(b.tweet.id) ? -1 : 1;
+  const orphans: ConversationNode[] = [];
+  for (const node of nodes.values()) {
+    if (node.tweet.id === root?.id) {
+      continue;
+    }
+    const parent = nodes.get(parentId(node.tweet) ?? "");
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      orphans.push(node);
+    }
+  }
+
+  let omitted = 0;
+  const prune = (node: ConversationNode, depth: number) => {
+    node.depth = depth;
+    node.children.sort(byId);
+    if (depth >= maxDepth) {
+      omitted += countReplies(node);
+      node.children = [];
+    }
+    for (const child of node.children) {
+      prune(child, depth + 1);
+    }
+  };
+  const rootNode = root ? nodes.get(root.id) : undefined;
+  if (rootNode) {
+    prune(rootNode, 0);
+  }
+  // Orphans hang somewhere below the root; count them as depth 1
+  orphans.sort(byId);
+  for (const orphan of orphans) {
+    prune(orphan, 1);
+  }
+
+  return {
+    conversation_id: conversationId,
+    root: rootNode,
+    orphans,
+    meta: { tweet_count: nodes.size - omitted, omitted, truncated },
+  };
+}
+
+function countReplies(node: ConversationNode): number {
+  return node.children.reduce((count, child) => count + 1 + countReplies(child), 0);
+}
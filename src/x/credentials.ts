@@ -0,0 +1,221 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { Config } from "./auth.js";
+import { TwitterServiceError } from "./errors.js";
+import { logger } from "../logger.js";
+
+/**
+ * Credentials registered under an alias. Accounts with an `accessSecret` are
+ * OAuth 1.0a user tokens (signed with the app key/secret from the environment),
+ * the others are OAuth 2.0 user tokens.
+ */
+export type StoredAccount = Config & {
+  alias: string;
+  accessToken: string;
+};
+
+/**
+ * Where the credential store persists its accounts
+ */
+export interface CredentialBackend {
+  load(): StoredAccount[];
+  save(accounts: StoredAccount[]): void;
+}
+
+/**
+ * Keeps accounts in memory only
+ */
+export class MemoryCredentialBackend implements CredentialBackend {
+  public load(): StoredAccount[] {
+    return [];
+  }
+
+  public save(): void {}
+}
+
+/**
+ * Persists accounts to a file encrypted with AES-256-GCM. The key is derived
+ * from a passphrase with scrypt; the salt and IV are stored with the ciphertext.
+ */
+export class EncryptedFileCredentialBackend implements CredentialBackend {
+  constructor(
+    private readonly path: string,
+    private readonly passphrase: string
+  ) {}
+
+  public load(): StoredAccount[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    const payload = JSON.parse(readFileSync(this.path, "utf8"));
+    const salt = Buffer.from(payload.salt, "base64");
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      scryptSync(this.passphrase, salt, 32),
+      Buffer.from(payload.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(payload.tag, "base64"));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(payload.data, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString("utf8"));
+  }
+
+  public save(accounts: StoredAccount[]): void {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(
+      "aes-256-gcm",
+      scryptSync(this.passphrase, salt, 32),
+      iv
+    );
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(accounts), "utf8"),
+      cipher.final(),
+    ]);
+    const payload = {
+      version: 1,
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+    writeFileSync(this.path, JSON.stringify(payload), { mode: 0o600 });
+  }
+}
+
+/**
+ * Accounts keyed by alias, so tools can act as an account without the
+ * model ever seeing its tokens
+ */
+export class CredentialStore {
+  private accounts = new Map<string, StoredAccount>();
+
+  constructor(private readonly backend: CredentialBackend) {
+    for (const account of backend.load()) {
+      this.accounts.set(account.alias, account);
+    }
+  }
+
+  /**
+   * Get the credentials of an account
+   * @param alias The account alias
+   * @returns The live credentials object; token refreshes update it in place
+   */
+  public get(alias: string): StoredAccount {
+    const account = this.accounts.get(alias);
+    if (!account) {
+      throw new TwitterServiceError(
+        "auth",
+        `Unknown account "${alias}". Registered accounts: ${this.aliases().join(", ") || "none"}`
+      );
+    }
+    return account;
+  }
+
+  /**
+   * Whether a credentials object belongs to this store
+   */
+  public owns(config: Config): boolean {
+    const alias = (config as Partial<StoredAccount>).alias;
+    return alias !== undefined && this.accounts.get(alias) === config;
+  }
+
+  /**
+   * Register or replace an account
+   */
+  public set(account: StoredAccount): void {
+    this.accounts.set(account.alias, { ...account });
+    this.persist();
+  }
+
+  /**
+   * Remove an account
+   * @returns Whether the account existed
+   */
+  public remove(alias: string): boolean {
+    const existed = this.accounts.delete(alias);
+    if (existed) {
+      this.persist();
+    }
+    return existed;
+  }
+
+  public aliases(): string[] {
+    return [...this.accounts.keys()].sort();
+  }
+
+  /**
+   * Write the current accounts to the backend, e.g. after a token refresh
+   */
+  public persist(): void {
+    try {
+      this.backend.save([...this.accounts.values()]);
+    } catch (error: unknown) {
+      logger.error("Failed to persist the credential store", error);
+    }
+  }
+}
+
+/**
+ * Parse accounts from the TWITTER_ACCOUNTS environment variable, a JSON object
+ * of `{ "<alias>": { "accessToken": "...", "refreshToken": "...", "accessSecret": "..." } }`
+ */
+function readAccountsEnv(): StoredAccount[] {
+  const raw = process.env.TWITTER_ACCOUNTS;
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed: Record<string, Config> = JSON.parse(raw);
+    return Object.entries(parsed)
+      .filter(([, config]) => config.accessToken)
+      .map(([alias, config]) => ({
+        ...config,
+        alias,
+        accessToken: config.accessToken!,
+      }));
+  } catch (error: unknown) {
+    logger.error("TWITTER_ACCOUNTS is not valid JSON, ignoring it", error);
+    return [];
+  }
+}
+
+/**
+ * Create the credential store from the environment: accounts persisted in
+ * CREDENTIALS_FILE (encrypted with CREDENTIALS_KEY) plus those in
+ * TWITTER_ACCOUNTS that are not persisted yet. A persisted account keeps its
+ * tokens, which may have been rotated since TWITTER_ACCOUNTS was written.
+ */
+function createCredentialStore(): CredentialStore {
+  const file = process.env.CREDENTIALS_FILE;
+  const key = process.env.CREDENTIALS_KEY;
+  if (file && !key) {
+    logger.warn("CREDENTIALS_FILE is set without CREDENTIALS_KEY, keeping accounts in memory");
+  }
+
+  const store = new CredentialStore(
+    file && key
+      ? new EncryptedFileCredentialBackend(file, key)
+      : new MemoryCredentialBackend()
+  );
+  const persisted = new Set(store.aliases());
+  for (const account of readAccountsEnv()) {
+    if (!persisted.has(account.alias)) {
+      store.set(account);
+    }
+  }
+  return store;
+}
+
+/**
+ * The shared credential store
+ */
+export const credentialStore = createCredentialStore();
@@ -0,0 +1,52 @@
+/**
+ * Whether every write is a dry run, configured with DRY_RUN=true
+ */
+export const DRY_RUN = process.env.DRY_RUN === "true";
+
+/**
+ * An API request a write operation makes
+ */
+export type WriteRequest = {
+  method: "POST" | "PUT" | "DELETE";
+  /** Path below https://api.x.com, e.g. `/2/tweets` */
+  endpoint: string;
+  body?: Record<string, unknown>;
+};
+
+/**
+ * What a write operation would have sent, returned instead of calling the API
+ */
+export type DryRun = {
+  dryRun: true;
+  /** In the order they would be sent */
+  requests: WriteRequest[];
+};
+
+/**
+ * Whether a write runs dry: always when DRY_RUN is set, otherwise when asked
+ */
+export function dryRunEnabled(dryRun: boolean | undefined): boolean {
+  return DRY_RUN || dryRun === true;
+}
+
+export function isDryRun(result: unknown): result is DryRun {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    (result as Partial<DryRun>).dryRun === true
+  );
+}
+
+/**
+ * Describe a request; `body` entries left undefined are not sent
+ */
+export function writeRequest(
+  method: WriteRequest["method"],
+  path: string,
+  body?: Record<string, unknown>
+): WriteRequest {
+  const sent =
+    body &&
+    Object.fromEntries(Object.entries(body).filter(([, value]) => value !== undefined));
+  return { method, endpoint: `/2/${path}`, ...(sent ? { body: sent } : {}) };
+}
@@ -0,0 +1,203 @@
+import {
+  ApiPartialResponseError,
+  ApiRequestError,
+  ApiResponseError,
+  EApiV1ErrorCode,
+  InlineErrorV2,
+} from "twitter-api-v2";
+
+/**
+ * Machine-readable error codes returned by every failing tool
+ */
+export type TwitterErrorCode =
+  | "auth"
+  | "rate_limited"
+  | "not_found"
+  | "forbidden"
+  | "duplicate_content"
+  | "validation"
+  | "network"
+  | "unknown";
+
+/**
+ * An error raised by TwitterService, normalized from twitter-api-v2 errors
+ */
+export class TwitterServiceError extends Error {
+  public readonly code: TwitterErrorCode;
+  /** HTTP status returned by the API, if any */
+  public readonly status?: number;
+  /** When a rate-limited call can be retried (ISO 8601) */
+  public readonly retryAt?: string;
+  /** Extra machine-readable context, e.g. the invalid parameters */
+  public readonly details?: unknown;
+
+  constructor(
+    code: TwitterErrorCode,
+    message: string,
+    options: { status?: number; retryAt?: string; details?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "TwitterServiceError";
+    this.code = code;
+    this.status = options.status;
+    this.retryAt = options.retryAt;
+    this.details = options.details;
+  }
+
+  /**
+   * The payload returned to the MCP client
+   */
+  public toJSON() {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.status !== undefined ? { status: this.status } : {}),
+      ...(this.retryAt !== undefined ? { retryAt: this.retryAt } : {}),
+      ...(this.details !== undefined ? { details: this.details } : {}),
+    };
+  }
+}
+
+/**
+ * Pull the most specific message out of an API error payload
+ */
+function describeApiError(error: ApiResponseError): string | undefined {
+  const { data } = error;
+  const first = data.errors?.[0];
+  if (first && "message" in first && first.message) {
+    return first.message;
+  }
+  if (first && "detail" in first && first.detail) {
+    return first.detail;
+  }
+  return data.detail || data.title || data.error;
+}
+
+function fromResponseError(error: ApiResponseError): TwitterServiceError {
+  const status = error.code;
+  const apiMessage = describeApiError(error);
+  const details = error.data.errors;
+
+  if (status === 401) {
+    return new TwitterServiceError(
+      "auth",
+      "The credentials were rejected. Check that the access token is valid and not expired, or pass a refresh token.",
+      { status, details }
+    );
+  }
+  if (status === 429 || error.rateLimitError) {
+    const reset = error.rateLimit?.reset;
+    const retryAt = reset ? new Date(reset * 1000).toISOString() : undefined;
+    return new TwitterServiceError(
+      "rate_limited",
+      `Rate limit exceeded for this endpoint.${retryAt ? ` Retry after ${retryAt}.` : ""}`,
+      { status, retryAt }
+    );
+  }
+  if (
+    error.hasErrorCode(EApiV1ErrorCode.DuplicatedTweet) ||
+    /duplicate content/i.test(apiMessage ?? "")
+  ) {
+    return new TwitterServiceError(
+      "duplicate_content",
+      "X rejected this post as a duplicate of a recent post. Change the text and try again.",
+      { status }
+    );
+  }
+  if (status === 403) {
+    return new TwitterServiceError(
+      "forbidden",
+      `The authenticated account is not allowed to do this${apiMessage ? `: ${apiMessage}` : "."} Check the app's access level and the token scopes.`,
+      { status, details }
+    );
+  }
+  if (status === 404) {
+    return new TwitterServiceError(
+      "not_found",
+      apiMessage ?? "The requested resource does not exist.",
+      { status }
+    );
+  }
+  if (status === 400 || status === 422) {
+    return new TwitterServiceError(
+      "validation",
+      `The request was invalid${apiMessage ? `: ${apiMessage}` : "."}`,
+      { status, details }
+    );
+  }
+  if (status >= 500) {
+    return new TwitterServiceError(
+      "network",
+      `The X API is unavailable (HTTP ${status}). Try again shortly.`,
+      { status }
+    );
+  }
+  return new TwitterServiceError(
+    "unknown",
+    apiMessage ?? `The X API returned HTTP ${status}.`,
+    { status, details }
+  );
+}
+
+/**
+ * Convert any error thrown while calling the API into a TwitterServiceError
+ * @param error The caught error
+ * @returns The normalized error
+ */
+export function toTwitterServiceError(error: unknown): TwitterServiceError {
+  if (error instanceof TwitterServiceError) {
+    return error;
+  }
+  if (error instanceof ApiResponseError) {
+    return fromResponseError(error);
+  }
+  if (error instanceof ApiRequestError) {
+    return new TwitterServiceError(
+      "network",
+      `Could not reach the X API: ${error.requestError?.message ?? error.message}`
+    );
+  }
+  if (error instanceof ApiPartialResponseError) {
+    return new TwitterServiceError(
+      "network",
+      "The connection to the X API was interrupted before the response completed. Try again."
+    );
+  }
+  return new TwitterServiceError(
+    "unknown",
+    error instanceof Error ? error.message : String(error)
+  );
+}
+
+/**
+ * Convert an inline error from a successful (HTTP 200) response, such as a
+ * lookup of a deleted tweet, into a TwitterServiceError
+ */
+export function fromInlineError(error: InlineErrorV2): TwitterServiceError {
+  if (/not-found/.test(error.type)) {
+    return new TwitterServiceError("not_found", error.detail);
+  }
+  if (/not-authorized|forbidden/.test(error.type)) {
+    return new TwitterServiceError("forbidden", error.detail);
+  }
+  return new TwitterServiceError("unknown", error.detail, { details: error });
+}
+
+/**
+ * The resource of a single-resource lookup, e.g. one tweet or user
+ * @param result The response, with the resource in `data` or the reason in `errors`
+ * @param name Names the resource when the response has neither, e.g. `Tweet 123`
+ * @throws TwitterServiceError `not_found` when the resource is missing
+ */
+export function lookupData<T>(
+  result: { data?: T; errors?: InlineErrorV2[] },
+  name: string
+): T {
+  if (result.data) {
+    return result.data;
+  }
+  if (result.errors?.length) {
+    throw fromInlineError(result.errors[0]);
+  }
+  throw new TwitterServiceError("not_found", `${name} not found`);
+}
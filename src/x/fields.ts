@@ -0,0 +1,310 @@
+import {
+  GetListV2Params,
+  ListV2,
+  MediaObjectV2,
+  PlaceV2,
+  PollV2,
+  ReferencedTweetV2,
+  TListV2Field,
+  TTweetv2Expansion,
+  TTweetv2MediaField,
+  TTweetv2TweetField,
+  TTweetv2UserField,
+  TweetV2,
+  Tweetv2FieldsParams,
+  TwitterV2IncludesHelper,
+  UserV2,
+  UsersV2Params,
+} from "twitter-api-v2";
+
+export const TWEET_FIELDS = [
+  "attachments",
+  "author_id",
+  "context_annotations",
+  "conversation_id",
+  "created_at",
+  "edit_controls",
+  "edit_history_tweet_ids",
+  "entities",
+  "geo",
+  "id",
+  "in_reply_to_user_id",
+  "lang",
+  "note_tweet",
+  "possibly_sensitive",
+  "public_metrics",
+  "referenced_tweets",
+  "reply_settings",
+  "source",
+  "text",
+  "withheld",
+] as const satisfies readonly TTweetv2TweetField[];
+
+export const USER_FIELDS = [
+  "created_at",
+  "description",
+  "entities",
+  "id",
+  "location",
+  "most_recent_tweet_id",
+  "name",
+  "pinned_tweet_id",
+  "profile_banner_url",
+  "profile_image_url",
+  "protected",
+  "public_metrics",
+  "url",
+  "username",
+  "verified",
+  "verified_type",
+  "withheld",
+] as const satisfies readonly TTweetv2UserField[];
+
+export const MEDIA_FIELDS = [
+  "alt_text",
+  "duration_ms",
+  "height",
+  "media_key",
+  "preview_image_url",
+  "public_metrics",
+  "type",
+  "url",
+  "variants",
+  "width",
+] as const satisfies readonly TTweetv2MediaField[];
+
+export const TWEET_EXPANSIONS = [
+  "attachments.media_keys",
+  "attachments.poll_ids",
+  "author_id",
+  "edit_history_tweet_ids",
+  "entities.mentions.username",
+  "geo.place_id",
+  "in_reply_to_user_id",
+  "referenced_tweets.id",
+  "referenced_tweets.id.author_id",
+] as const satisfies readonly TTweetv2Expansion[];
+
+const LIST_FIELDS: TListV2Field[] = [
+  "created_at",
+  "description",
+  "follower_count",
+  "member_count",
+  "owner_id",
+  "private",
+];
+
+export const FIELD_PRESETS = ["minimal", "standard", "full"] as const;
+
+export type FieldPreset = (typeof FIELD_PRESETS)[number];
+
+/**
+ * Which fields and expansions a lookup requests. Explicit lists replace the
+ * preset's list for that object type.
+ */
+export type FieldOptions = {
+  /** Default: standard */
+  preset?: FieldPreset;
+  tweetFields?: TTweetv2TweetField[];
+  userFields?: TTweetv2UserField[];
+  mediaFields?: TTweetv2MediaField[];
+  expansions?: TTweetv2Expansion[];
+};
+
+type Selection = {
+  tweetFields: readonly TTweetv2TweetField[];
+  userFields: readonly TTweetv2UserField[];
+  mediaFields: readonly TTweetv2MediaField[];
+  expansions: readonly TTweetv2Expansion[];
+};
+
+const PRESETS: Record<FieldPreset, Selection> = {
+  minimal: {
+    tweetFields: ["author_id", "created_at"],
+    userFields: ["username", "name"],
+    mediaFields: [],
+    expansions: ["author_id"],
+  },
+  standard: {
+    tweetFields: [
+      "attachments",
+      "author_id",
+      "conversation_id",
+      "created_at",
+      "entities",
+      "in_reply_to_user_id",
+      "lang",
+      "public_metrics",
+      "referenced_tweets",
+    ],
+    userFields: [
+      "description",
+      "name",
+      "profile_image_url",
+      "protected",
+      "public_metrics",
+      "username",
+      "verified",
+    ],
+    mediaFields: ["alt_text", "preview_image_url", "type", "url"],
+    expansions: [
+      "attachments.media_keys",
+      "author_id",
+      "referenced_tweets.id",
+    ],
+  },
+  // Everything readable without owning the tweet; non-public metrics would fail otherwise
+  full: {
+    tweetFields: TWEET_FIELDS,
+    userFields: USER_FIELDS,
+    mediaFields: MEDIA_FIELDS,
+    expansions: TWEET_EXPANSIONS,
+  },
+};
+
+function select(options: FieldOptions): Selection {
+  const preset = PRESETS[options.preset ?? "standard"];
+  return {
+    tweetFields: options.tweetFields ?? preset.tweetFields,
+    userFields: options.userFields ?? preset.userFields,
+    mediaFields: options.mediaFields ?? preset.mediaFields,
+    expansions: options.expansions ?? preset.expansions,
+  };
+}
+
+/**
+ * Drop empty lists, which the API rejects
+ */
+function nonEmpty<T extends string>(
+  params: Record<string, readonly T[]>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(params)
+      .filter(([, values]) => values.length > 0)
+      .map(([key, values]) => [key, values.join(",")])
+  );
+}
+
+/**
+ * Query parameters for endpoints returning tweets
+ */
+export function tweetFieldParams(
+  options: FieldOptions = {}
+): Partial<Tweetv2FieldsParams> {
+  const selection = select(options);
+  return nonEmpty({
+    "tweet.fields": selection.tweetFields,
+    "user.fields": selection.userFields,
+    "media.fields": selection.mediaFields,
+    expansions: selection.expansions,
+    ...(selection.expansions.includes("attachments.poll_ids")
+      ? { "poll.fields": ["duration_minutes", "end_datetime", "options", "voting_status"] }
+      : {}),
+    ...(selection.expansions.includes("geo.place_id")
+      ? { "place.fields": ["country", "country_code", "full_name", "place_type"] }
+      : {}),
+  });
+}
+
+/**
+ * Query parameters for endpoints returning users. The pinned tweet is expanded
+ * unless the preset is minimal.
+ */
+export function userFieldParams(
+  options: FieldOptions = {}
+): Partial<UsersV2Params> {
+  const selection = select(options);
+  return nonEmpty({
+    "user.fields": selection.userFields,
+    ...(options.preset !== "minimal"
+      ? { expansions: ["pinned_tweet_id"], "tweet.fields": selection.tweetFields }
+      : {}),
+  });
+}
+
+/**
+ * Query parameters for endpoints returning lists, with the owner expanded
+ */
+export function listFieldParams(): Partial<GetListV2Params> {
+  return {
+    "list.fields": LIST_FIELDS,
+    expansions: ["owner_id"],
+    "user.fields": ["name", "username"],
+  };
+}
+
+/**
+ * A tweet with the objects its expansions refer to attached
+ */
+export type ExpandedTweet = Omit<TweetV2, "referenced_tweets"> & {
+  author?: UserV2;
+  media?: MediaObjectV2[];
+  poll?: PollV2;
+  place?: PlaceV2;
+  referenced_tweets?: (ReferencedTweetV2 & { tweet?: ExpandedTweet })[];
+};
+
+export type ExpandedUser = UserV2 & { pinned_tweet?: TweetV2 };
+
+export type ExpandedList = ListV2 & { owner?: UserV2 };
+
+/**
+ * Attach the `includes` of a response to its tweets: the author, media, poll,
+ * place and referenced tweets (one level deep)
+ * @param includes The response's includes, e.g. `paginator.includes`
+ */
+export function expandTweets(
+  tweets: TweetV2[],
+  includes: TwitterV2IncludesHelper,
+  depth = 1
+): ExpandedTweet[] {
+  return tweets.map((tweet) => {
+    const media = includes.medias(tweet);
+    const expanded: ExpandedTweet = {
+      ...tweet,
+      ...optional("author", includes.author(tweet)),
+      ...optional("media", media.length > 0 ? media : undefined),
+      ...optional("poll", includes.poll(tweet)),
+      ...optional("place", includes.place(tweet)),
+    };
+    if (tweet.referenced_tweets && depth > 0) {
+      expanded.referenced_tweets = tweet.referenced_tweets.map((reference) => {
+        const referenced = includes.tweetById(reference.id);
+        return referenced
+          ? { ...reference, tweet: expandTweets([referenced], includes, depth - 1)[0] }
+          : reference;
+      });
+    }
+    return expanded;
+  });
+}
+
+/**
+ * Attach the pinned tweet from the `includes` of a response to its users
+ */
+export function expandUsers(
+  users: UserV2[],
+  includes: TwitterV2IncludesHelper
+): ExpandedUser[] {
+  return users.map((user) => ({
+    ...user,
+    ...optional("pinned_tweet", includes.pinnedTweet(user)),
+  }));
+}
+
+/**
+ * Attach the owner from the `includes` of a response to its lists
+ */
+export function expandLists(
+  lists: ListV2[],
+  includes: TwitterV2IncludesHelper
+): ExpandedList[] {
+  return lists.map((list) => ({
+    ...list,
+    ...optional("owner", includes.listOwner(list)),
+  }));
+}
+
+function optional<K extends string, V>(key: K, value: V | undefined) {
+  return (value === undefined ? {} : { [key]: value }) as Partial<Record<K, V>>;
+}
@@ -0,0 +1,83 @@
+import {
+  closeSync,
+  openSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { setTimeout as sleep } from "node:timers/promises";
+import { TwitterServiceError } from "./errors.js";
+import { logger } from "../logger.js";
+
+// How long to wait for a lock held by another process
+const LOCK_TIMEOUT_MS = 10 * 1000;
+
+// A lock older than this was left behind by a process that crashed holding it
+const STALE_LOCK_MS = 60 * 1000;
+
+// How long to sleep between attempts to take a lock
+const LOCK_RETRY_MS = 10;
+
+function isCode(error: unknown, code: string): boolean {
+  return (error as NodeJS.ErrnoException | undefined)?.code === code;
+}
+
+/**
+ * Run a function holding the lock of a file, `<path>.lock`. The lock is
+ * created exclusively, so of all processes sharing the file only one holds
+ * it at a time. Waiting for the lock does not block the event loop; the
+ * function itself must be synchronous and quick, as others wait for it.
+ * @param path The file the lock guards
+ * @returns What the function returns
+ */
+export async function withFileLock<T>(path: string, fn: () => T): Promise<T> {
+  const lock = `${path}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      closeSync(openSync(lock, "wx", 0o600));
+      break;
+    } catch (error: unknown) {
+      if (!isCode(error, "EEXIST")) {
+        throw error;
+      }
+    }
+    try {
+      if (Date.now() - statSync(lock).mtimeMs > STALE_LOCK_MS) {
+        logger.warn("Removing a stale lock", { lock });
+        rmSync(lock, { force: true });
+        continue;
+      }
+    } catch (error: unknown) {
+      // Released between the two calls
+      if (!isCode(error, "ENOENT")) {
+        throw error;
+      }
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new TwitterServiceError(
+        "unknown",
+        `Timed out waiting for ${lock}; remove it if no server is running`
+      );
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+
+  try {
+    return fn();
+  } finally {
+    rmSync(lock, { force: true });
+  }
+}
+
+/**
+ * Replace a file's content through a temporary file, so readers and a crash
+ * never see it half written. Call it holding the file's lock.
+ */
+export function writeFileAtomically(path: string, content: string): void {
+  const temporary = `${path}.tmp`;
+  writeFileSync(temporary, content, { mode: 0o600 });
+  renameSync(temporary, path);
+}
@@ -0,0 +1,74 @@
+import { InlineErrorV2 } from "twitter-api-v2";
+import { fromInlineError, TwitterServiceError } from "./errors.js";
+
+/**
+ * The most ids or usernames a multi-lookup endpoint accepts per request
+ */
+export const MAX_LOOKUP_SIZE = 100;
+
+/**
+ * One entry of a batch lookup: the object found for the query, or why it is missing
+ */
+export type LookupResult<T> = {
+  /** The id or username as given by the caller */
+  query: string;
+  data?: T;
+  error?: ReturnType<TwitterServiceError["toJSON"]>;
+};
+
+/**
+ * Look up objects in chunks of MAX_LOOKUP_SIZE. Duplicate queries are fetched
+ * once; results come back in the order of `queries`, with an error for every
+ * query the API did not return.
+ * @param fetchChunk Fetches one chunk, returning the objects and inline errors
+ * @param keyOf The query that matches an object, e.g. its id
+ * @param normalizeKey Makes matching queries equal, e.g. lower-casing usernames
+ */
+export async function lookupInChunks<T>(
+  queries: string[],
+  fetchChunk: (chunk: string[]) => Promise<{ data: T[]; errors: InlineErrorV2[] }>,
+  keyOf: (item: T) => string,
+  normalizeKey: (query: string) => string = (query) => query
+): Promise<LookupResult<T>[]> {
+  const unique = [
+    ...new Map(queries.map((query) => [normalizeKey(query), query])).values(),
+  ];
+  const found = new Map<string, T>();
+  const failed = new Map<string, TwitterServiceError>();
+  for (let i = 0; i < unique.length; i += MAX_LOOKUP_SIZE) {
+    const { data, errors } = await fetchChunk(unique.slice(i, i + MAX_LOOKUP_SIZE));
+    for (const item of data) {
+      found.set(normalizeKey(keyOf(item)), item);
+    }
+    for (const error of errors) {
+      const value = error.value ?? error.resource_id;
+      if (value) {
+        failed.set(normalizeKey(value), fromInlineError(error));
+      }
+    }
+  }
+
+  return queries.map((query) => {
+    const key = normalizeKey(query);
+    const item = found.get(key);
+    if (item) {
+      return { query, data: item };
+    }
+    const error =
+      failed.get(key) ??
+      new TwitterServiceError("not_found", `No result for ${query}`);
+    return { query, error: error.toJSON() };
+  });
+}
+
+/**
+ * The inline errors about the looked up objects themselves, leaving out those
+ * about expanded objects such as a referenced tweet
+ * @param parameter The query parameter holding the lookups, e.g. `ids`
+ */
+export function lookupErrors(
+  errors: InlineErrorV2[] | undefined,
+  parameter: string
+): InlineErrorV2[] {
+  return (errors ?? []).filter((error) => error.parameter === parameter);
+}
@@ -0,0 +1,586 @@
+import { lookup, LookupAddress } from "node:dns";
+import { existsSync } from "node:fs";
+import { readFile, stat } from "node:fs/promises";
+import { get as httpGet, IncomingMessage } from "node:http";
+import { get as httpsGet } from "node:https";
+import { BlockList, isIP, LookupFunction } from "node:net";
+import { homedir } from "node:os";
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { EUploadMimeType, TwitterApi } from "twitter-api-v2";
+import { logger } from "../logger.js";
+import { TwitterServiceError } from "./errors.js";
+import { sleep } from "./ratelimit.js";
+import { writeRequest, WriteRequest } from "./dryrun.js";
+
+/**
+ * Media to attach to a tweet, as given by the caller
+ */
+export type MediaInput = {
+  /** Base64 data, a data URL, an http(s) URL, a file path or a `file://` URI; see restrictMediaSources */
+  source: string;
+  /** Description for screen readers; images and GIFs only */
+  altText?: string;
+};
+
+export type MediaKind = "image" | "gif" | "video";
+
+/**
+ * Media read from its source and checked against the upload limits
+ */
+export type LoadedMedia = {
+  buffer: Buffer;
+  mimeType: EUploadMimeType;
+  kind: MediaKind;
+  altText?: string;
+};
+
+/**
+ * The most images attached to one tweet; a GIF or video must be alone
+ */
+export const MAX_IMAGES = 4;
+
+export const MAX_ALT_TEXT_LENGTH = 1000;
+
+const LIMITS: Record<MediaKind, { maxBytes: number; maxWidth?: number; maxHeight?: number }> = {
+  image: { maxBytes: 5 * 1024 * 1024, maxWidth: 8192, maxHeight: 8192 },
+  gif: { maxBytes: 15 * 1024 * 1024, maxWidth: 1280, maxHeight: 1080 },
+  // Video dimensions and duration are checked by the API while processing
+  video: { maxBytes: 512 * 1024 * 1024 },
+};
+
+// The media upload response, which twitter-api-v2 does not export a type for
+type UploadResponse = {
+  data: {
+    id: string;
+    processing_info?: {
+      state: "pending" | "in_progress" | "failed" | "succeeded";
+      check_after_secs?: number;
+      error?: { code: number; message: string };
+    };
+  };
+};
+
+const CATEGORIES: Record<MediaKind, string> = {
+  image: "tweet_image",
+  gif: "tweet_gif",
+  video: "tweet_video",
+};
+
+// Bytes per APPEND request of a chunked upload
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+// How long to wait for an uploaded GIF or video to be processed, configured
+// with MEDIA_PROCESSING_TIMEOUT_SECONDS (default: 5 minutes)
+const PROCESSING_TIMEOUT_MS =
+  Number(process.env.MEDIA_PROCESSING_TIMEOUT_SECONDS ?? 300) * 1000;
+
+// Redirects followed when downloading media
+const MAX_REDIRECTS = 5;
+
+// How long a media download may take in all, redirects included, configured
+// with MEDIA_DOWNLOAD_TIMEOUT_SECONDS (default: 10 minutes)
+const DOWNLOAD_TIMEOUT_MS =
+  Number(process.env.MEDIA_DOWNLOAD_TIMEOUT_SECONDS ?? 600) * 1000;
+
+// How long a media download may go without receiving data
+const DOWNLOAD_STALL_MS = 30 * 1000;
+
+// Major brands of MP4 video files
+const MP4_BRANDS = new Set([
+  "isom",
+  "iso2",
+  "iso4",
+  "iso5",
+  "iso6",
+  "mp41",
+  "mp42",
+  "avc1",
+  "dash",
+  "M4V ",
+  "MSNV",
+]);
+
+// Loopback, private, link-local (e.g. cloud metadata), shared, multicast and
+// reserved networks, which remote callers must not reach through the server
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["::ffff:0:0", 96],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+// Whether media sources are limited to what a remote caller may use
+let restricted = false;
+
+/**
+ * Limit media sources to inline data and http(s) URLs of public hosts. For
+ * transports whose callers are remote, which must not read the server's
+ * files or reach its private network.
+ */
+export function restrictMediaSources(): void {
+  restricted = true;
+}
+
+function invalid(message: string, details?: unknown): TwitterServiceError {
+  return new TwitterServiceError("validation", message, { details });
+}
+
+/**
+ * Detect the media type from the first bytes of a file
+ */
+export function sniffMimeType(buffer: Buffer): EUploadMimeType | undefined {
+  const ascii = (start: number, end: number) =>
+    buffer.subarray(start, end).toString("latin1");
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return EUploadMimeType.Jpeg;
+  }
+  if (ascii(0, 8) === "\x89PNG\r\n\x1a\n") {
+    return EUploadMimeType.Png;
+  }
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") {
+    return EUploadMimeType.Gif;
+  }
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+    return EUploadMimeType.Webp;
+  }
+  // ISO base media files share the `ftyp` box, HEIC and AVIF images too, so
+  // the major brand tells the format
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (brand === "qt  ") {
+      return EUploadMimeType.Mov;
+    }
+    return MP4_BRANDS.has(brand) ? EUploadMimeType.Mp4 : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Read the pixel size of a JPEG, PNG, GIF or WebP image from its header
+ */
+export function imageDimensions(
+  buffer: Buffer,
+  mimeType: EUploadMimeType
+): { width: number; height: number } | undefined {
+  try {
+    switch (mimeType) {
+      case EUploadMimeType.Png:
+        return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+      case EUploadMimeType.Gif:
+        return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+      case EUploadMimeType.Webp:
+        return webpDimensions(buffer);
+      case EUploadMimeType.Jpeg:
+        return jpegDimensions(buffer);
+      default:
+        return undefined;
+    }
+  } catch {
+    // Truncated header; the API rejects the file if it is really broken
+    return undefined;
+  }
+}
+
+function jpegDimensions(buffer: Buffer) {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return undefined;
+    }
+    const marker = buffer[offset + 1];
+    // Start of frame markers, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return {
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+      };
+    }
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+function webpDimensions(buffer: Buffer) {
+  switch (buffer.subarray(12, 16).toString("latin1")) {
+    case "VP8X":
+      return {
+        width: buffer.readUIntLE(24, 3) + 1,
+        height: buffer.readUIntLE(27, 3) + 1,
+      };
+    case "VP8L": {
+      const bits = buffer.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case "VP8 ":
+      return {
+        width: buffer.readUInt16LE(26) & 0x3fff,
+        height: buffer.readUInt16LE(28) & 0x3fff,
+      };
+    default:
+      return undefined;
+  }
+}
+
+function kindOf(mimeType: EUploadMimeType): MediaKind {
+  if (mimeType === EUploadMimeType.Gif) {
+    return "gif";
+  }
+  return mimeType.startsWith("video/") ? "video" : "image";
+}
+
+async function readSource(source: string): Promise<Buffer> {
+  const dataUrl = source.match(/^data:[^;,]*(;[^,]*)?,/);
+  if (dataUrl) {
+    const data = source.slice(dataUrl[0].length);
+    return dataUrl[1]?.includes("base64")
+      ? Buffer.from(data, "base64")
+      : Buffer.from(decodeURIComponent(data), "latin1");
+  }
+  if (/^https?:\/\//i.test(source)) {
+    if (!URL.canParse(source)) {
+      throw invalid(`Invalid media URL: ${source}`);
+    }
+    return download(new URL(source));
+  }
+  if (restricted) {
+    if (/^[A-Za-z0-9+/=_\s-]+$/.test(source)) {
+      return Buffer.from(source, "base64");
+    }
+    throw invalid(
+      "Media must be base64 data, a data URL or an http(s) URL; this server does not read local files"
+    );
+  }
+  if (source.startsWith("file://")) {
+    return readLocalFile(fileURLToPath(source));
+  }
+  // Base64 JPEGs start with `/9j/`, so only existing files count as paths
+  const path = resolve(source.replace(/^~(?=\/)/, homedir()));
+  if (source.length < 4096 && existsSync(path)) {
+    return readLocalFile(path);
+  }
+  if (/^[A-Za-z0-9+/=_\s-]+$/.test(source)) {
+    return Buffer.from(source, "base64");
+  }
+  throw invalid(`Media file not found: ${source}`);
+}
+
+async function readLocalFile(path: string): Promise<Buffer> {
+  const info = await stat(path).catch(() => undefined);
+  if (!info?.isFile()) {
+    throw invalid(`Media file not found: ${path}`);
+  }
+  if (info.size > LIMITS.video.maxBytes) {
+    throw invalid(`Media file is too large: ${path}`, { bytes: info.size });
+  }
+  return readFile(path);
+}
+
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_NETWORKS.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Resolve a host like the default lookup, but fail for private addresses.
+ * The connection uses the checked addresses, so the host cannot resolve to
+ * another address in between.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      callback(
+        invalid(`Media host ${hostname} resolves to the private address ${blocked.address}`),
+        ""
+      );
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Download media, following redirects. The body is streamed and the download
+ * aborted once it exceeds the largest upload, whether or not the response
+ * announces its length, or once it takes too long or stalls.
+ * @param signal Aborts the download, redirects included, when it takes too long
+ */
+async function download(
+  url: URL,
+  redirects = 0,
+  signal = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS)
+): Promise<Buffer> {
+  if (!/^https?:$/.test(url.protocol)) {
+    throw invalid(`Media URLs must use http or https: ${url.href}`);
+  }
+  // IP addresses are connected to without a lookup, so they are checked here
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (restricted && isIP(host) && isPrivateAddress(host)) {
+    throw invalid(`Media URL ${url.href} points to a private address`);
+  }
+
+  // Set when the socket goes quiet; the body stream only reports "aborted"
+  let stalled: Error | undefined;
+  const failed = (error: Error) =>
+    error instanceof TwitterServiceError
+      ? error
+      : new TwitterServiceError(
+          "network",
+          `Could not download media from ${url.href}: ${
+            signal.aborted
+              ? `timed out after ${DOWNLOAD_TIMEOUT_MS / 1000} seconds`
+              : (stalled ?? error).message
+          }`
+        );
+  const response = await new Promise<IncomingMessage>((resolveResponse, reject) => {
+    const get = url.protocol === "https:" ? httpsGet : httpGet;
+    const request = get(
+      url,
+      {
+        lookup: restricted ? publicLookup : undefined,
+        signal,
+        // Socket inactivity, while connecting or streaming the body
+        timeout: DOWNLOAD_STALL_MS,
+      },
+      resolveResponse
+    );
+    request.on("timeout", () => {
+      stalled = new Error(`no data received for ${DOWNLOAD_STALL_MS / 1000} seconds`);
+      request.destroy(stalled);
+    });
+    request.on("error", (error) => reject(failed(error)));
+  });
+
+  const status = response.statusCode ?? 0;
+  const location = response.headers.location;
+  if (status >= 300 && status < 400 && location) {
+    response.resume();
+    if (redirects >= MAX_REDIRECTS) {
+      throw invalid(`Too many redirects downloading media from ${url.href}`);
+    }
+    return download(new URL(location, url), redirects + 1, signal);
+  }
+  if (status < 200 || status >= 300) {
+    response.resume();
+    throw invalid(`Could not download media from ${url.href}: HTTP ${status}`);
+  }
+
+  const maxBytes = LIMITS.video.maxBytes;
+  const tooLarge = (bytes: number) =>
+    invalid(`Media at ${url.href} is larger than ${maxBytes / 1024 / 1024} MB`, { bytes });
+  const length = Number(response.headers["content-length"] ?? 0);
+  if (length > maxBytes) {
+    response.destroy();
+    throw tooLarge(length);
+  }
+  const chunks: Buffer[] = [];
+  let bytes = 0;
+  try {
+    for await (const chunk of response) {
+      bytes += (chunk as Buffer).length;
+      if (bytes > maxBytes) {
+        response.destroy();
+        throw tooLarge(bytes);
+      }
+      chunks.push(chunk as Buffer);
+    }
+  } catch (error: unknown) {
+    throw failed(error as Error);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Read media from its source and check its type and size against the limits
+ * of its kind. The type comes from the file contents, not the name or data URL.
+ */
+export async function loadMedia(input: MediaInput): Promise<LoadedMedia> {
+  const buffer = await readSource(input.source.trim());
+  if (buffer.length === 0) {
+    throw invalid("Media is empty");
+  }
+  const mimeType = sniffMimeType(buffer);
+  if (!mimeType) {
+    throw invalid(
+      "Unsupported media type; use JPEG, PNG, WebP, GIF, MP4 or MOV"
+    );
+  }
+  const kind = kindOf(mimeType);
+  const limits = LIMITS[kind];
+  if (buffer.length > limits.maxBytes) {
+    throw invalid(`The ${kind} is larger than ${limits.maxBytes / 1024 / 1024} MB`, {
+      bytes: buffer.length,
+    });
+  }
+  const size = imageDimensions(buffer, mimeType);
+  if (
+    size &&
+    limits.maxWidth &&
+    limits.maxHeight &&
+    (size.width > limits.maxWidth || size.height > limits.maxHeight)
+  ) {
+    throw invalid(
+      `The ${kind} is larger than ${limits.maxWidth}x${limits.maxHeight} pixels`,
+      size
+    );
+  }
+  if (input.altText !== undefined) {
+    if (kind === "video") {
+      throw invalid("Alt text is only supported for images and GIFs");
+    }
+    if ([...input.altText].length > MAX_ALT_TEXT_LENGTH) {
+      throw invalid(`Alt text is longer than ${MAX_ALT_TEXT_LENGTH} characters`);
+    }
+  }
+  return { buffer, mimeType, kind, altText: input.altText };
+}
+
+/**
+ * Load the media of one tweet: up to four images, or a single GIF or video
+ */
+export async function loadTweetMedia(inputs: MediaInput[]): Promise<LoadedMedia[]> {
+  if (inputs.length > MAX_IMAGES) {
+    throw invalid(`A tweet can have at most ${MAX_IMAGES} images`);
+  }
+  const media: LoadedMedia[] = [];
+  for (const input of inputs) {
+    media.push(await loadMedia(input));
+  }
+  if (media.length > 1 && media.some((item) => item.kind !== "image")) {
+    throw invalid("A GIF or video cannot be combined with other media");
+  }
+  return media;
+}
+
+/**
+ * The requests uploadMedia makes, with `mediaId` standing in for the ID the
+ * API assigns. Chunks are described by their size instead of their bytes.
+ */
+export function uploadRequests(media: LoadedMedia, mediaId: string): WriteRequest[] {
+  const requests = [
+    writeRequest("POST", "media/upload", {
+      command: "INIT",
+      media_type: media.mimeType,
+      total_bytes: media.buffer.length,
+      media_category: CATEGORIES[media.kind],
+    }),
+  ];
+  for (let offset = 0; offset < media.buffer.length; offset += CHUNK_SIZE) {
+    requests.push(
+      writeRequest("POST", "media/upload", {
+        command: "APPEND",
+        media_id: mediaId,
+        segment_index: offset / CHUNK_SIZE,
+        media: `<${Math.min(CHUNK_SIZE, media.buffer.length - offset)} bytes>`,
+      })
+    );
+  }
+  requests.push(
+    writeRequest("POST", "media/upload", { command: "FINALIZE", media_id: mediaId })
+  );
+  if (media.altText) {
+    requests.push(
+      writeRequest("POST", "media/metadata", {
+        id: mediaId,
+        metadata: { alt_text: { text: media.altText } },
+      })
+    );
+  }
+  return requests;
+}
+
+/**
+ * Upload media in chunks, wait until the API has processed it, then set its
+ * alt text
+ * @returns The media ID
+ */
+export async function uploadMedia(
+  client: TwitterApi,
+  media: LoadedMedia
+): Promise<string> {
+  const init = await client.v2.post<UploadResponse>(
+    "media/upload",
+    {
+      command: "INIT",
+      media_type: media.mimeType,
+      total_bytes: media.buffer.length,
+      media_category: CATEGORIES[media.kind],
+    },
+    { forceBodyMode: "form-data" }
+  );
+  const mediaId = init.data.id;
+  for (let offset = 0; offset < media.buffer.length; offset += CHUNK_SIZE) {
+    await client.v2.post(
+      "media/upload",
+      {
+        command: "APPEND",
+        media_id: mediaId,
+        segment_index: offset / CHUNK_SIZE,
+        media: media.buffer.subarray(offset, offset + CHUNK_SIZE),
+      },
+      { forceBodyMode: "form-data" }
+    );
+  }
+  const finalized = await client.v2.post<UploadResponse>(
+    "media/upload",
+    { command: "FINALIZE", media_id: mediaId },
+    { forceBodyMode: "form-data" }
+  );
+
+  let processing = finalized.data.processing_info;
+  const deadline = Date.now() + PROCESSING_TIMEOUT_MS;
+  while (processing && processing.state !== "succeeded") {
+    if (processing.state === "failed") {
+      throw invalid(
+        `Media processing failed: ${processing.error?.message ?? "unknown error"}`,
+        { mediaId, error: processing.error }
+      );
+    }
+    if (Date.now() >= deadline) {
+      throw new TwitterServiceError(
+        "unknown",
+        `Media ${mediaId} was not processed within ${PROCESSING_TIMEOUT_MS / 1000} seconds`,
+        { details: { mediaId, state: processing.state } }
+      );
+    }
+    await sleep((processing.check_after_secs ?? 1) * 1000);
+    const status = await client.v2.get<UploadResponse>("media/upload", {
+      command: "STATUS",
+      media_id: mediaId,
+    });
+    processing = status.data.processing_info;
+    logger.debug("Media processing", { mediaId, state: processing?.state });
+  }
+
+  if (media.altText) {
+    await client.v2.createMediaMetadata(mediaId, {
+      alt_text: { text: media.altText },
+    });
+  }
+  return mediaId;
+}
@@ -0,0 +1,364 @@
+import { z } from "zod";
+import { MediaObjectV2, TweetV2, UserV2 } from "twitter-api-v2";
+import { ExpandedTweet, ExpandedUser } from "./fields.js";
+import { Page } from "./pagination.js";
+import { Conversation, ConversationNode } from "./conversation.js";
+import { LookupResult } from "./lookup.js";
+
+/**
+ * Requested fields the compact schema has no place for, e.g.
+ * `context_annotations`, `entities`, `source`, `poll` or `place` of a tweet,
+ * passed through as the API returned them
+ */
+const extrasSchema = z.record(z.unknown()).optional();
+
+const authorSchema = z.object({
+  id: z.string(),
+  username: z.string().optional(),
+  name: z.string().optional(),
+  verified: z.boolean().optional(),
+  extras: extrasSchema,
+});
+
+const mediaSchema = z.object({
+  type: z.string(),
+  url: z.string().optional(),
+  alt_text: z.string().optional(),
+  extras: extrasSchema,
+});
+
+const baseTweetSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  text: z.string(),
+  author: authorSchema.optional(),
+  created_at: z.string().optional(),
+  lang: z.string().optional(),
+  conversation_id: z.string().optional(),
+  metrics: z
+    .object({
+      likes: z.number(),
+      retweets: z.number(),
+      replies: z.number(),
+      quotes: z.number(),
+      bookmarks: z.number().optional(),
+      impressions: z.number().optional(),
+    })
+    .optional(),
+  reply_to: z
+    .object({
+      tweet_id: z.string().optional(),
+      user_id: z.string().optional(),
+    })
+    .optional(),
+  media: z.array(mediaSchema).optional(),
+  extras: extrasSchema,
+});
+
+/**
+ * The compact tweet returned by tools. Quoted and retweeted tweets are
+ * included one level deep.
+ */
+export const tweetSchema = baseTweetSchema.extend({
+  quoted: baseTweetSchema.optional(),
+  retweeted: baseTweetSchema.optional(),
+});
+
+export const userSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  name: z.string(),
+  url: z.string(),
+  description: z.string().optional(),
+  location: z.string().optional(),
+  created_at: z.string().optional(),
+  verified: z.boolean().optional(),
+  protected: z.boolean().optional(),
+  metrics: z
+    .object({
+      followers: z.number(),
+      following: z.number(),
+      tweets: z.number(),
+      listed: z.number(),
+    })
+    .optional(),
+  pinned_tweet: baseTweetSchema.optional(),
+  extras: extrasSchema,
+});
+
+export const pageMetaSchema = z.object({
+  result_count: z.number(),
+  next_token: z.string().optional(),
+  pages: z.number(),
+  truncated: z.boolean().optional(),
+});
+
+export const tweetPageSchema = z.object({
+  tweets: z.array(tweetSchema),
+  meta: pageMetaSchema,
+});
+
+export const userPageSchema = z.object({
+  users: z.array(userSchema),
+  meta: pageMetaSchema,
+});
+
+const lookupErrorSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.unknown().optional(),
+});
+
+/**
+ * Batch lookup results in input order; `error` is set for missing entries
+ */
+export const tweetLookupSchema = z.object({
+  results: z.array(
+    z.object({
+      query: z.string(),
+      tweet: tweetSchema.optional(),
+      error: lookupErrorSchema.optional(),
+    })
+  ),
+});
+
+export const userLookupSchema = z.object({
+  results: z.array(
+    z.object({
+      query: z.string(),
+      user: userSchema.optional(),
+      error: lookupErrorSchema.optional(),
+    })
+  ),
+});
+
+export type NormalizedTweet = z.infer<typeof tweetSchema>;
+export type NormalizedUser = z.infer<typeof userSchema>;
+export type TweetPage = z.infer<typeof tweetPageSchema>;
+export type UserPage = z.infer<typeof userPageSchema>;
+export type TweetLookup = z.infer<typeof tweetLookupSchema>;
+export type UserLookup = z.infer<typeof userLookupSchema>;
+
+/**
+ * Link to a tweet; `i` works in place of the handle when the author is unknown
+ */
+export function tweetUrl(id: string, username?: string): string {
+  return `https://x.com/${username ?? "i"}/status/${id}`;
+}
+
+// The fields each compact schema is built from; any other field is an extra
+const TWEET_KEYS = new Set([
+  "id",
+  "text",
+  "note_tweet",
+  "author_id",
+  "author",
+  "created_at",
+  "lang",
+  "conversation_id",
+  "public_metrics",
+  "in_reply_to_user_id",
+  "referenced_tweets",
+  "attachments",
+  "media",
+]);
+const AUTHOR_KEYS = new Set(["id", "username", "name", "verified"]);
+const USER_KEYS = new Set([
+  ...AUTHOR_KEYS,
+  "description",
+  "location",
+  "created_at",
+  "protected",
+  "public_metrics",
+  "pinned_tweet_id",
+  "pinned_tweet",
+]);
+const MEDIA_KEYS = new Set(["media_key", "type", "url", "preview_image_url", "alt_text"]);
+
+/**
+ * The fields of an API object outside its compact schema, if any
+ * @param covered The fields the compact schema is built from
+ */
+function extras(
+  value: object,
+  covered: ReadonlySet<string>
+): Record<string, unknown> | undefined {
+  const rest = Object.entries(value).filter(
+    ([key, item]) => !covered.has(key) && item !== undefined
+  );
+  return rest.length > 0 ? Object.fromEntries(rest) : undefined;
+}
+
+function normalizeMedia(media: MediaObjectV2): z.infer<typeof mediaSchema> {
+  return compact({
+    type: media.type,
+    url: media.url ?? media.preview_image_url,
+    alt_text: media.alt_text,
+    extras: extras(media, MEDIA_KEYS),
+  });
+}
+
+function normalizeBaseTweet(
+  tweet: ExpandedTweet
+): z.infer<typeof baseTweetSchema> {
+  const metrics = tweet.public_metrics;
+  const author = tweet.author;
+  // The API always returns the edit history; it only says something once edited
+  const { edit_history_tweet_ids: editHistory, ...fields } = tweet;
+  return compact({
+    id: tweet.id,
+    url: tweetUrl(tweet.id, author?.username),
+    text: tweet.note_tweet?.text ?? tweet.text,
+    author: author
+      ? compact({
+          id: author.id,
+          username: author.username,
+          name: author.name,
+          verified: author.verified,
+          extras: extras(author, AUTHOR_KEYS),
+        })
+      : tweet.author_id
+        ? { id: tweet.author_id }
+        : undefined,
+    created_at: tweet.created_at,
+    lang: tweet.lang,
+    conversation_id: tweet.conversation_id,
+    metrics: metrics
+      ? compact({
+          likes: metrics.like_count,
+          retweets: metrics.retweet_count,
+          replies: metrics.reply_count,
+          quotes: metrics.quote_count,
+          bookmarks: metrics.bookmark_count,
+          impressions: metrics.impression_count,
+        })
+      : undefined,
+    reply_to:
+      tweet.in_reply_to_user_id || referenced(tweet, "replied_to")
+        ? compact({
+            tweet_id: referenced(tweet, "replied_to")?.id,
+            user_id: tweet.in_reply_to_user_id,
+          })
+        : undefined,
+    media: tweet.media?.map(normalizeMedia),
+    extras: extras(
+      editHistory?.length > 1
+        ? { ...fields, edit_history_tweet_ids: editHistory }
+        : fields,
+      TWEET_KEYS
+    ),
+  });
+}
+
+function referenced(tweet: ExpandedTweet, type: string) {
+  return tweet.referenced_tweets?.find((reference) => reference.type === type);
+}
+
+/**
+ * Turn a tweet with its expansions attached into the compact tool schema
+ */
+export function normalizeTweet(tweet: ExpandedTweet): NormalizedTweet {
+  const quoted = referenced(tweet, "quoted")?.tweet;
+  const retweeted = referenced(tweet, "retweeted")?.tweet;
+  return compact({
+    ...normalizeBaseTweet(tweet),
+    quoted: quoted ? normalizeBaseTweet(quoted) : undefined,
+    retweeted: retweeted ? normalizeBaseTweet(retweeted) : undefined,
+  });
+}
+
+/**
+ * Turn a user into the compact tool schema
+ */
+export function normalizeUser(user: ExpandedUser | UserV2): NormalizedUser {
+  const metrics = user.public_metrics;
+  const pinned = (user as ExpandedUser).pinned_tweet as TweetV2 | undefined;
+  return compact({
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    url: `https://x.com/${user.username}`,
+    description: user.description || undefined,
+    location: user.location,
+    created_at: user.created_at,
+    verified: user.verified,
+    protected: user.protected,
+    metrics: metrics
+      ? {
+          followers: metrics.followers_count ?? 0,
+          following: metrics.following_count ?? 0,
+          tweets: metrics.tweet_count ?? 0,
+          listed: metrics.listed_count ?? 0,
+        }
+      : undefined,
+    pinned_tweet: pinned
+      ? normalizeBaseTweet({
+          ...pinned,
+          author: {
+            id: user.id,
+            username: user.username,
+            name: user.name,
+            verified: user.verified,
+          },
+        })
+      : undefined,
+    extras: extras(user, USER_KEYS),
+  });
+}
+
+export function normalizeTweetPage(page: Page<ExpandedTweet>): TweetPage {
+  return { tweets: page.data.map(normalizeTweet), meta: page.meta };
+}
+
+export function normalizeUserPage(page: Page<ExpandedUser>): UserPage {
+  return { users: page.data.map(normalizeUser), meta: page.meta };
+}
+
+export function normalizeTweetLookup(
+  results: LookupResult<ExpandedTweet>[]
+): TweetLookup {
+  return {
+    results: results.map(({ query, data, error }) =>
+      compact({ query, tweet: data && normalizeTweet(data), error })
+    ),
+  };
+}
+
+export function normalizeUserLookup(
+  results: LookupResult<ExpandedUser>[]
+): UserLookup {
+  return {
+    results: results.map(({ query, data, error }) =>
+      compact({ query, user: data && normalizeUser(data), error })
+    ),
+  };
+}
+
+function normalizeNode(
+  node: ConversationNode
+): ConversationNode<NormalizedTweet> {
+  return {
+    tweet: normalizeTweet(node.tweet),
+    depth: node.depth,
+    children: node.children.map(normalizeNode),
+  };
+}
+
+export function normalizeConversation(
+  conversation: Conversation
+): Conversation<NormalizedTweet> {
+  return compact({
+    ...conversation,
+    root: conversation.root ? normalizeNode(conversation.root) : undefined,
+    orphans: conversation.orphans.map(normalizeNode),
+  });
+}
+
+/**
+ * Drop undefined properties so the output stays compact
+ */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, item]) => item !== undefined)
+  ) as T;
+}
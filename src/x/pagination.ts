@@ -0,0 +1,113 @@
+import { TwitterServiceError } from "./errors.js";
+
+/**
+ * The most results a single call collects when walking pages, configured with
+ * PAGINATION_MAX_RESULTS (default: 1000)
+ */
+export const MAX_PAGINATED_RESULTS = Number(
+  process.env.PAGINATION_MAX_RESULTS ?? 1000
+);
+
+/**
+ * How a list-returning call pages through results
+ */
+export type PaginationOptions = {
+  /** Results per page, within the endpoint's bounds */
+  maxResults?: number;
+  /** Resume from the `next_token` of a previous call */
+  paginationToken?: string;
+  /** Walk pages until this many results are collected */
+  limit?: number;
+  /** Walk every page */
+  fetchAll?: boolean;
+};
+
+/**
+ * Pagination metadata returned with every list of results
+ */
+export type PageMeta = {
+  result_count: number;
+  /**
+   * Pass as `paginationToken` to continue after the last fetched page. Omitted
+   * when the results are truncated: it would skip the dropped results.
+   */
+  next_token?: string;
+  /** Number of pages fetched */
+  pages: number;
+  /** Whether results were dropped to honor `limit` or the server cap; such results cannot be resumed */
+  truncated?: boolean;
+};
+
+export type Page<T> = {
+  data: T[];
+  meta: PageMeta;
+};
+
+/**
+ * The subset of twitter-api-v2's v2 paginators used to walk pages
+ */
+type Paginator<T> = Iterable<T> & {
+  readonly done: boolean;
+  readonly meta: { next_token?: string } | undefined;
+  fetchNext(): Promise<unknown>;
+};
+
+/**
+ * Clamp a page size into an endpoint's bounds
+ * @param bounds The smallest and largest page the endpoint accepts
+ */
+export function pageSize(
+  options: PaginationOptions,
+  bounds: { min: number; max: number }
+): number {
+  const requested =
+    options.maxResults ??
+    (options.fetchAll ? bounds.max : Math.min(options.limit ?? 10, bounds.max));
+  return Math.max(bounds.min, Math.min(bounds.max, requested));
+}
+
+/**
+ * Collect results from a paginator. Without `limit` or `fetchAll` only the
+ * first page is returned; otherwise pages are fetched until enough results are
+ * collected, the last page is reached, or MAX_PAGINATED_RESULTS is hit. When
+ * the last page is cut short, no `next_token` is returned.
+ * @param paginator A paginator holding the first page
+ * @returns The results and their pagination metadata
+ */
+export async function collectPages<T>(
+  paginator: Paginator<T>,
+  options: PaginationOptions
+): Promise<Page<T>> {
+  if (options.limit !== undefined && options.limit < 1) {
+    throw new TwitterServiceError("validation", "limit must be at least 1");
+  }
+
+  const target =
+    options.fetchAll || options.limit !== undefined
+      ? Math.min(options.limit ?? Infinity, MAX_PAGINATED_RESULTS)
+      : undefined;
+
+  let pages = 1;
+  let data = [...paginator];
+  if (target !== undefined) {
+    while (data.length < target && !paginator.done) {
+      await paginator.fetchNext();
+      pages++;
+      data = [...paginator];
+    }
+  }
+
+  const truncated = target !== undefined && data.length > target;
+  if (truncated) {
+    data = data.slice(0, target);
+  }
+  return {
+    data,
+    meta: {
+      result_count: data.length,
+      next_token: truncated ? undefined : paginator.meta?.next_token,
+      pages,
+      ...(truncated ? { truncated } : {}),
+    },
+  };
+}
@@ -0,0 +1,194 @@
+import {
+  ApiResponseError,
+  ITwitterApiClientPlugin,
+  TwitterRateLimit,
+} from "twitter-api-v2";
+import { logger } from "../logger.js";
+import { TwitterServiceError } from "./errors.js";
+
+/**
+ * The last known quota of one endpoint for one credential
+ */
+export type RateLimitStatus = {
+  endpoint: string;
+  limit: number;
+  remaining: number;
+  /** When the window resets (ISO 8601) */
+  resetAt: string;
+  resetInSeconds: number;
+  /** Daily quota, reported by some write endpoints */
+  day?: { limit: number; remaining: number; resetAt: string };
+  updatedAt: string;
+};
+
+/**
+ * The longest we are willing to wait for a window to reset before retrying,
+ * configured with RATE_LIMIT_MAX_WAIT_SECONDS (default: 60)
+ */
+export const MAX_RATE_LIMIT_WAIT_MS =
+  Number(process.env.RATE_LIMIT_MAX_WAIT_SECONDS ?? 60) * 1000;
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Turn a request URL into a stable endpoint key such as `GET /2/users/:id/tweets`
+ */
+export function endpointKey(method: string, url: URL): string {
+  const path = url.pathname
+    .split("/")
+    .map((segment) => (/^\d+$/.test(segment) ? ":id" : segment))
+    .join("/")
+    .replace(/\/by\/username\/[^/]+/, "/by/username/:username");
+  return `${method.toUpperCase()} ${path}`;
+}
+
+/**
+ * Tracks the x-rate-limit-* headers per credential and endpoint
+ */
+export class RateLimitTracker {
+  private limits = new Map<string, Map<string, { rateLimit: TwitterRateLimit; updatedAt: number }>>();
+
+  /**
+   * Record the rate limit headers of a response
+   * @param credentialKey The credential the request was made with
+   * @param endpoint The endpoint key
+   * @param rateLimit The parsed rate limit headers
+   */
+  public record(
+    credentialKey: string,
+    endpoint: string,
+    rateLimit: TwitterRateLimit
+  ): void {
+    let endpoints = this.limits.get(credentialKey);
+    if (!endpoints) {
+      endpoints = new Map();
+      this.limits.set(credentialKey, endpoints);
+    }
+    endpoints.set(endpoint, { rateLimit, updatedAt: Date.now() });
+  }
+
+  /**
+   * Get the last known quota of an endpoint, if any
+   */
+  public get(credentialKey: string, endpoint: string): RateLimitStatus | undefined {
+    const entry = this.limits.get(credentialKey)?.get(endpoint);
+    return entry ? this.toStatus(endpoint, entry.rateLimit, entry.updatedAt) : undefined;
+  }
+
+  /**
+   * List the last known quota of every endpoint called with a credential
+   */
+  public list(credentialKey: string): RateLimitStatus[] {
+    const endpoints = this.limits.get(credentialKey);
+    if (!endpoints) {
+      return [];
+    }
+    return [...endpoints.entries()]
+      .map(([endpoint, entry]) => this.toStatus(endpoint, entry.rateLimit, entry.updatedAt))
+      .sort((a, b) => a.endpoint.localeCompare(b.endpoint));
+  }
+
+  /**
+   * How long a call to an endpoint must wait before it can succeed
+   * @returns Milliseconds until the window resets, or 0 if quota is left
+   */
+  public waitTime(credentialKey: string, endpoint: string): number {
+    const entry = this.limits.get(credentialKey)?.get(endpoint);
+    if (!entry) {
+      return 0;
+    }
+    const now = Date.now();
+    const windows = [entry.rateLimit, entry.rateLimit.day].filter(
+      (window) => window && window.remaining <= 0 && window.reset * 1000 > now
+    );
+    return Math.max(0, ...windows.map((window) => window!.reset * 1000 - now));
+  }
+
+  private toStatus(
+    endpoint: string,
+    rateLimit: TwitterRateLimit,
+    updatedAt: number
+  ): RateLimitStatus {
+    const now = Date.now();
+    const expired = rateLimit.reset * 1000 <= now;
+    return {
+      endpoint,
+      limit: rateLimit.limit,
+      // Once the window has reset the full quota is available again
+      remaining: expired ? rateLimit.limit : rateLimit.remaining,
+      resetAt: new Date(rateLimit.reset * 1000).toISOString(),
+      resetInSeconds: Math.max(0, Math.ceil(rateLimit.reset - now / 1000)),
+      ...(rateLimit.day
+        ? {
+            day: {
+              limit: rateLimit.day.limit,
+              remaining: rateLimit.day.remaining,
+              resetAt: new Date(rateLimit.day.reset * 1000).toISOString(),
+            },
+          }
+        : {}),
+      updatedAt: new Date(updatedAt).toISOString(),
+    };
+  }
+}
+
+/**
+ * Build a client plugin that records rate limits for a credential and holds
+ * back requests to exhausted endpoints: it waits for the reset when it is
+ * near and fails fast with the reset time otherwise.
+ * @param tracker The tracker to record into
+ * @param credentialKey The credential the client is built for
+ */
+export function createRateLimitPlugin(
+  tracker: RateLimitTracker,
+  credentialKey: string
+): ITwitterApiClientPlugin {
+  return {
+    onBeforeRequestConfig: async ({ url, params }) => {
+      const endpoint = endpointKey(params.method, url);
+      const wait = tracker.waitTime(credentialKey, endpoint);
+      if (wait <= 0) {
+        return;
+      }
+
+      const retryAt = new Date(Date.now() + wait).toISOString();
+      if (wait > MAX_RATE_LIMIT_WAIT_MS) {
+        throw new TwitterServiceError(
+          "rate_limited",
+          `Rate limit exhausted for ${endpoint}. Retry after ${retryAt}.`,
+          { status: 429, retryAt }
+        );
+      }
+      logger.info("Rate limit exhausted, waiting for reset", { endpoint, retryAt });
+      await sleep(wait);
+    },
+    onAfterRequest: ({ url, params, response }) => {
+      if (response.rateLimit) {
+        tracker.record(credentialKey, endpointKey(params.method, url), response.rateLimit);
+      }
+    },
+    onResponseError: ({ url, params, error }) => {
+      if (error.rateLimit) {
+        tracker.record(credentialKey, endpointKey(params.method, url), error.rateLimit);
+      }
+    },
+  };
+}
+
+/**
+ * How long to wait before retrying a call rejected with HTTP 429
+ * @returns Milliseconds to wait, or null if the call should fail fast
+ */
+export function retryDelay(error: unknown): number | null {
+  if (!(error instanceof ApiResponseError) || error.code !== 429) {
+    return null;
+  }
+  const reset = error.rateLimit?.reset;
+  if (!reset) {
+    return null;
+  }
+  const wait = Math.max(0, reset * 1000 - Date.now());
+  return wait <= MAX_RATE_LIMIT_WAIT_MS ? wait : null;
+}
@@ -0,0 +1,674 @@
+import { randomBytes } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { homedir, hostname } from "node:os";
+import { dirname, join } from "node:path";
+import { Config } from "./auth.js";
+import { credentialStore, StoredAccount } from "./credentials.js";
+import { DRY_RUN, DryRun, dryRunEnabled } from "./dryrun.js";
+import { toTwitterServiceError, TwitterServiceError } from "./errors.js";
+import { withFileLock, writeFileAtomically } from "./filelock.js";
+import { MediaInput } from "./media.js";
+import { TwitterService } from "./services.js";
+import { ThreadPart } from "./thread.js";
+import { assertTimeZone, formatLocalTime, parseTime } from "./time.js";
+import { logger } from "../logger.js";
+
+export const JOB_STATUSES = [
+  "scheduled",
+  "running",
+  "posted",
+  "failed",
+  "canceled",
+  "missed",
+] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/**
+ * The time zone of wall-clock times given without one, configured with
+ * SCHEDULER_TIME_ZONE (default: the system time zone)
+ */
+export const DEFAULT_TIME_ZONE =
+  process.env.SCHEDULER_TIME_ZONE ??
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// How many times a post is attempted before a transient failure is final
+const MAX_ATTEMPTS = Number(process.env.SCHEDULER_MAX_ATTEMPTS ?? 5);
+
+// How late a job may still be posted, e.g. after the server was down
+const GRACE_MS = Number(process.env.SCHEDULER_GRACE_MINUTES ?? 60) * 60 * 1000;
+
+// The longest the scheduler sleeps, so jobs added by other processes are picked up
+const MAX_SLEEP_MS = 60 * 1000;
+
+// The first retry delay, doubled for every further attempt up to MAX_RETRY_DELAY_MS
+const RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// A job whose runner has not been heard from for this long was interrupted,
+// e.g. on a host that went down
+const RUNNING_TIMEOUT_MS = 15 * 60 * 1000;
+
+// How often a running job is marked alive, well within RUNNING_TIMEOUT_MS
+const HEARTBEAT_MS = 60 * 1000;
+
+// Where jobs are kept unless SCHEDULE_FILE says otherwise
+const DEFAULT_SCHEDULE_FILE = join(homedir(), ".twitter-mcp", "schedule.json");
+
+// This process, recorded on the jobs it runs. The nonce tells a restarted
+// process apart from its predecessor when both got the same PID, as in containers.
+const RUNNER = `${hostname()}:${process.pid}:${randomBytes(4).toString("hex")}`;
+
+/**
+ * What a job posts: a tweet (`text` and `media`) or a thread (`parts`)
+ */
+export type ScheduledPost = {
+  text?: string;
+  media?: MediaInput[];
+  parts?: ThreadPart[];
+  numbering?: boolean;
+  rollbackOnFailure?: boolean;
+};
+
+/**
+ * A tweet or thread to post at a set time
+ */
+export type ScheduledJob = {
+  id: string;
+  post: ScheduledPost;
+  /** The registered account to post as; none for the environment credentials */
+  account?: string;
+  /** The user the job posts as, checked again when it runs */
+  userId: string;
+  username: string;
+  status: JobStatus;
+  /** ISO 8601, UTC */
+  runAt: string;
+  /** The time zone the time was given in */
+  timeZone: string;
+  /** `runAt` as wall-clock time in `timeZone` */
+  localRunAt: string;
+  attempts: number;
+  /** The process running the job, as `host:pid:nonce` */
+  runner?: string;
+  /** When a transient failure is retried (ISO 8601) */
+  nextAttemptAt?: string;
+  /** ISO 8601 */
+  createdAt: string;
+  /** ISO 8601 */
+  updatedAt: string;
+  /** The posted tweet or thread */
+  result?: unknown;
+  /** The last failure */
+  error?: ReturnType<TwitterServiceError["toJSON"]>;
+};
+
+/**
+ * Where the scheduler persists its jobs
+ */
+export interface JobBackend {
+  load(): ScheduledJob[];
+  /**
+   * Load the jobs, let `change` return the jobs to save, and save them, as
+   * one step no other server sharing the backend can interleave with.
+   * Nothing is saved if `change` throws.
+   */
+  transaction<T>(
+    change: (jobs: ScheduledJob[]) => { jobs: ScheduledJob[]; result: T }
+  ): Promise<T>;
+}
+
+/**
+ * Keeps jobs in memory only, so they are lost on restart
+ */
+export class MemoryJobBackend implements JobBackend {
+  private jobs: ScheduledJob[] = [];
+
+  public load(): ScheduledJob[] {
+    return this.jobs;
+  }
+
+  public async transaction<T>(
+    change: (jobs: ScheduledJob[]) => { jobs: ScheduledJob[]; result: T }
+  ): Promise<T> {
+    const { jobs, result } = change([...this.jobs]);
+    this.jobs = jobs;
+    return result;
+  }
+}
+
+/**
+ * Persists jobs to a JSON file. Changes hold the file's lock, so several
+ * servers can share it and a due job is run by one of them only. Writes go
+ * to a temporary file that replaces the old one, so a crash never leaves a
+ * half-written store behind.
+ */
+export class JsonFileJobBackend implements JobBackend {
+  constructor(private readonly path: string) {}
+
+  public load(): ScheduledJob[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+    return JSON.parse(readFileSync(this.path, "utf8"));
+  }
+
+  public async transaction<T>(
+    change: (jobs: ScheduledJob[]) => { jobs: ScheduledJob[]; result: T }
+  ): Promise<T> {
+    mkdirSync(dirname(this.path), { recursive: true, mode: 0o700 });
+    return withFileLock(this.path, () => {
+      const { jobs, result } = change(this.load());
+      writeFileAtomically(this.path, JSON.stringify(jobs, null, 2));
+      return result;
+    });
+  }
+}
+
+/**
+ * When a scheduled job is next due
+ */
+function dueAt(job: ScheduledJob): number {
+  return Date.parse(job.nextAttemptAt ?? job.runAt);
+}
+
+/**
+ * Whether a running job was interrupted: the process running it is gone, or
+ * it has not marked the job alive for RUNNING_TIMEOUT_MS. Processes on other
+ * hosts cannot be checked, so their jobs are only ever timed out. Jobs this
+ * process runs are never interrupted.
+ */
+function isInterrupted(job: ScheduledJob, now: number): boolean {
+  if (job.runner === RUNNER) {
+    return false;
+  }
+  if (now - Date.parse(job.updatedAt) > RUNNING_TIMEOUT_MS || !job.runner) {
+    return true;
+  }
+  const [host, pid] = job.runner.split(":");
+  if (host !== hostname()) {
+    return false;
+  }
+  if (Number(pid) === process.pid) {
+    // This PID, but an earlier process
+    return true;
+  }
+  try {
+    process.kill(Number(pid), 0);
+    return false;
+  } catch (error: unknown) {
+    return (error as NodeJS.ErrnoException).code === "ESRCH";
+  }
+}
+
+/**
+ * Whether a failed post may be retried: the failure is temporary, and no
+ * tweet of a thread is left posted, which a retry would post again
+ */
+function isRetryable(error: TwitterServiceError): boolean {
+  if (error.code !== "rate_limited" && error.code !== "network") {
+    return false;
+  }
+  const details = error.details as
+    | { posted?: unknown[]; rollback?: { failed: unknown[] } }
+    | undefined;
+  return (
+    !details?.posted?.length ||
+    (details.rollback !== undefined && details.rollback.failed.length === 0)
+  );
+}
+
+/**
+ * Posts tweets and threads at their scheduled time. Jobs are persisted, so
+ * they survive restarts; on start, jobs missed while the server was down are
+ * posted if they are at most SCHEDULER_GRACE_MINUTES late.
+ */
+export class Scheduler {
+  private timer?: NodeJS.Timeout;
+  private started = false;
+  private ticking = false;
+
+  constructor(
+    private readonly backend: JobBackend,
+    private readonly twitterService: TwitterService
+  ) {}
+
+  /**
+   * Schedule a tweet or thread. The post is checked with a dry run first, so
+   * invalid text or media is refused now rather than at the due time.
+   * @param at ISO 8601; without an offset it is read in `timeZone`
+   * @param timeZone IANA time zone (default: SCHEDULER_TIME_ZONE)
+   * @param dryRun Return the requests posting would send, without scheduling;
+   *   always with DRY_RUN set
+   * @returns The scheduled job
+   */
+  public async schedule(
+    config: Config,
+    post: ScheduledPost,
+    at: string,
+    timeZone: string = DEFAULT_TIME_ZONE,
+    dryRun: boolean = false
+  ): Promise<ScheduledJob | DryRun> {
+    if ((post.text === undefined) === (post.parts === undefined)) {
+      throw new TwitterServiceError(
+        "validation",
+        "Pass either `text` for a tweet or `parts` for a thread"
+      );
+    }
+    const runAt = this.futureTime(at, timeZone);
+    const account = this.jobAccount(config);
+    const preview = (await this.post(config, post, true)) as DryRun;
+    if (dryRunEnabled(dryRun)) {
+      return preview;
+    }
+
+    const me = await this.twitterService.getAuthenticatedUser(config);
+    const now = new Date().toISOString();
+    const job: ScheduledJob = {
+      // Short enough not to be masked as a credential in logs
+      id: randomBytes(8).toString("hex"),
+      post,
+      account,
+      userId: me.id,
+      username: me.username,
+      status: "scheduled",
+      runAt: new Date(runAt).toISOString(),
+      timeZone,
+      localRunAt: formatLocalTime(runAt, timeZone),
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.backend.transaction((jobs) => ({ jobs: [...jobs, job], result: job }));
+    logger.info("Post scheduled", {
+      id: job.id,
+      runAt: job.runAt,
+      username: me.username,
+    });
+    this.wake();
+    return job;
+  }
+
+  /**
+   * The jobs with a status, soonest first
+   * @param userId Only the jobs posting as this user
+   */
+  public list(status?: JobStatus, userId?: string): ScheduledJob[] {
+    return this.backend
+      .load()
+      .filter(
+        (job) =>
+          (status === undefined || job.status === status) &&
+          (userId === undefined || job.userId === userId)
+      )
+      .sort((a, b) => dueAt(a) - dueAt(b));
+  }
+
+  /**
+   * Cancel a job that has not run yet
+   * @param userId The user canceling; only jobs posting as them can be canceled
+   */
+  public async cancel(id: string, userId: string): Promise<ScheduledJob> {
+    this.assertOwner(this.get(id), userId);
+    return this.update(id, ["scheduled"], { status: "canceled" });
+  }
+
+  /**
+   * Move a job to a new time. Canceled, failed and missed jobs are scheduled again.
+   * @param userId The user rescheduling; only jobs posting as them can be moved
+   * @param timeZone IANA time zone (default: the job's time zone)
+   */
+  public async reschedule(
+    id: string,
+    userId: string,
+    at: string,
+    timeZone?: string
+  ): Promise<ScheduledJob> {
+    const current = this.get(id);
+    this.assertOwner(current, userId);
+    const zone = timeZone ?? current.timeZone;
+    const runAt = this.futureTime(at, zone);
+    const job = await this.update(id, ["scheduled", "canceled", "failed", "missed"], {
+      status: "scheduled",
+      runAt: new Date(runAt).toISOString(),
+      timeZone: zone,
+      localRunAt: formatLocalTime(runAt, zone),
+      attempts: 0,
+      nextAttemptAt: undefined,
+      error: undefined,
+    });
+    this.wake();
+    return job;
+  }
+
+  /**
+   * Start running due jobs. With DRY_RUN set nothing runs, so jobs are not
+   * marked posted unsent.
+   */
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+    if (DRY_RUN) {
+      logger.warn("DRY_RUN is set, scheduled posts are not sent");
+      return;
+    }
+    this.started = true;
+    void this.tick();
+  }
+
+  public stop(): void {
+    this.started = false;
+    clearTimeout(this.timer);
+  }
+
+  /**
+   * Refuse changes to a job by another user than the one it posts as
+   */
+  private assertOwner(job: ScheduledJob, userId: string): void {
+    if (job.userId !== userId) {
+      throw new TwitterServiceError(
+        "forbidden",
+        `Scheduled post ${job.id} posts as @${job.username}; pass the account it was scheduled with`
+      );
+    }
+  }
+
+  private get(id: string): ScheduledJob {
+    const job = this.backend.load().find((candidate) => candidate.id === id);
+    if (!job) {
+      throw new TwitterServiceError("not_found", `No scheduled post with ID ${id}`);
+    }
+    return job;
+  }
+
+  /**
+   * Change a job in one of the given statuses. The status is checked and set
+   * in one step, so of two servers changing the same job only one succeeds.
+   */
+  private update(
+    id: string,
+    from: JobStatus[],
+    changes: Partial<Omit<ScheduledJob, "id" | "createdAt" | "updatedAt">>
+  ): Promise<ScheduledJob> {
+    return this.backend.transaction((jobs) => {
+      const index = jobs.findIndex((job) => job.id === id);
+      if (index === -1) {
+        throw new TwitterServiceError("not_found", `No scheduled post with ID ${id}`);
+      }
+      if (!from.includes(jobs[index].status)) {
+        throw new TwitterServiceError(
+          "validation",
+          `Scheduled post ${id} is ${jobs[index].status}; expected ${from.join(" or ")}`
+        );
+      }
+      const updated: ScheduledJob = {
+        ...jobs[index],
+        ...changes,
+        updatedAt: new Date().toISOString(),
+      };
+      jobs[index] = updated;
+      return { jobs, result: updated };
+    });
+  }
+
+  /**
+   * Mark failed the jobs whose process stopped while running them. Such a
+   * job may or may not have been posted, so it is not posted again.
+   */
+  private async failInterrupted(): Promise<void> {
+    const now = Date.now();
+    const error = new TwitterServiceError(
+      "unknown",
+      "The server stopped while posting. Check whether the post went out before rescheduling it"
+    ).toJSON();
+    const interrupted = await this.backend.transaction((jobs) => {
+      const ids = jobs
+        .filter((job) => job.status === "running" && isInterrupted(job, now))
+        .map((job) => job.id);
+      return {
+        jobs: jobs.map((job) =>
+          ids.includes(job.id)
+            ? {
+                ...job,
+                status: "failed" as const,
+                runner: undefined,
+                error,
+                updatedAt: new Date(now).toISOString(),
+              }
+            : job
+        ),
+        result: ids,
+      };
+    });
+    if (interrupted.length > 0) {
+      logger.warn("Interrupted scheduled posts were marked failed", {
+        ids: interrupted,
+      });
+    }
+  }
+
+  /**
+   * Take a due job for this process, checking it is still scheduled and due
+   * in the same step, so that of several servers sharing the backend only
+   * one runs it. A job too late to post is marked missed instead.
+   * @returns The job, now running, or undefined if it is not to be run here
+   */
+  private async claim(id: string): Promise<ScheduledJob | undefined> {
+    const now = Date.now();
+    const claimed = await this.backend.transaction((jobs) => {
+      const index = jobs.findIndex((job) => job.id === id);
+      const job = jobs[index];
+      if (!job || job.status !== "scheduled" || dueAt(job) > now) {
+        return { jobs, result: undefined };
+      }
+      const updatedAt = new Date(now).toISOString();
+      jobs[index] =
+        now - dueAt(job) > Math.max(GRACE_MS, MAX_SLEEP_MS)
+          ? {
+              ...job,
+              status: "missed",
+              error: new TwitterServiceError(
+                "unknown",
+                `Not posted: the server was not running at ${job.localRunAt}. Reschedule it to post it`
+              ).toJSON(),
+              updatedAt,
+            }
+          : {
+              ...job,
+              status: "running",
+              attempts: job.attempts + 1,
+              runner: RUNNER,
+              updatedAt,
+            };
+      return { jobs, result: jobs[index] };
+    });
+    if (claimed?.status === "missed") {
+      logger.warn("Scheduled post missed", { id, runAt: claimed.runAt });
+      return undefined;
+    }
+    return claimed;
+  }
+
+  /**
+   * Parse a due time, which must lie in the future
+   */
+  private futureTime(at: string, timeZone: string): number {
+    assertTimeZone(timeZone);
+    const runAt = parseTime(at, timeZone);
+    if (runAt <= Date.now()) {
+      throw new TwitterServiceError(
+        "validation",
+        `${formatLocalTime(runAt, timeZone)} is in the past`
+      );
+    }
+    return runAt;
+  }
+
+  /**
+   * The account a job posts as. Jobs run without a tool call, so they need
+   * credentials the server holds: a registered account or the environment.
+   */
+  private jobAccount(config: Config): string | undefined {
+    if (credentialStore.owns(config)) {
+      return (config as StoredAccount).alias;
+    }
+    if (config.accessToken) {
+      throw new TwitterServiceError(
+        "validation",
+        "Scheduled posts need credentials the server keeps; register an account and pass `account`"
+      );
+    }
+    return undefined;
+  }
+
+  private post(config: Config, post: ScheduledPost, dryRun: boolean = false) {
+    return post.parts
+      ? this.twitterService.postThread(config, post.parts, {
+          numbering: post.numbering,
+          rollback: post.rollbackOnFailure,
+          dryRun,
+        })
+      : this.twitterService.postTweet(config, post.text ?? "", post.media, dryRun);
+  }
+
+  /**
+   * Sleep until the next job is due, at most MAX_SLEEP_MS
+   */
+  private wake(): void {
+    if (!this.started) {
+      return;
+    }
+    clearTimeout(this.timer);
+    const next = Math.min(
+      ...this.list("scheduled").map(dueAt),
+      Date.now() + MAX_SLEEP_MS
+    );
+    this.timer = setTimeout(() => void this.tick(), Math.max(next - Date.now(), 0));
+    // Pending jobs alone do not keep the process alive
+    this.timer.unref();
+  }
+
+  /**
+   * Run every due job, oldest first
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+    try {
+      await this.failInterrupted();
+      // Jobs another server claimed first are skipped, not retried
+      const skipped = new Set<string>();
+      for (;;) {
+        const due = this.list("scheduled").find(
+          (candidate) => dueAt(candidate) <= Date.now() && !skipped.has(candidate.id)
+        );
+        if (!due) {
+          break;
+        }
+        const job = await this.claim(due.id);
+        if (job) {
+          await this.run(job);
+        } else {
+          skipped.add(due.id);
+        }
+      }
+    } catch (error: unknown) {
+      logger.error("The scheduler failed to run due posts", error);
+    } finally {
+      this.ticking = false;
+      this.wake();
+    }
+  }
+
+  /**
+   * Post a job claimed by this process. While it runs, the job is marked
+   * alive, so other servers do not take it for interrupted.
+   */
+  private async run(job: ScheduledJob): Promise<void> {
+    const attempts = job.attempts;
+    const heartbeat = setInterval(() => {
+      this.update(job.id, ["running"], {}).catch((error: unknown) =>
+        logger.warn("Failed to mark a running scheduled post alive", error)
+      );
+    }, HEARTBEAT_MS);
+    heartbeat.unref();
+    try {
+      const config: Config = job.account ? credentialStore.get(job.account) : {};
+      const me = await this.twitterService.getAuthenticatedUser(config);
+      if (me.id !== job.userId) {
+        throw new TwitterServiceError(
+          "forbidden",
+          `The credentials now belong to @${me.username}, not @${job.username} who scheduled the post`
+        );
+      }
+      const result = await this.post(config, job.post);
+      if (this.twitterService.consumeRefreshedTokens(config)) {
+        credentialStore.persist();
+      }
+      await this.update(job.id, ["running"], {
+        status: "posted",
+        runner: undefined,
+        result,
+        nextAttemptAt: undefined,
+        error: undefined,
+      });
+      logger.info("Scheduled post sent", { id: job.id, attempts });
+    } catch (caught: unknown) {
+      const error = toTwitterServiceError(caught);
+      if (attempts < MAX_ATTEMPTS && isRetryable(error)) {
+        const backoff =
+          Date.now() +
+          Math.min(RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+        // A rate limit is not lifted before its reset
+        const retryAt = Math.max(
+          backoff,
+          error.retryAt ? Date.parse(error.retryAt) : 0
+        );
+        await this.update(job.id, ["running"], {
+          status: "scheduled",
+          runner: undefined,
+          nextAttemptAt: new Date(retryAt).toISOString(),
+          error: error.toJSON(),
+        });
+        logger.warn("Scheduled post failed, retrying", {
+          id: job.id,
+          attempts,
+          retryAt: new Date(retryAt).toISOString(),
+          error: error.toJSON(),
+        });
+        return;
+      }
+      await this.update(job.id, ["running"], {
+        status: "failed",
+        runner: undefined,
+        error: error.toJSON(),
+      });
+      logger.error("Scheduled post failed", {
+        id: job.id,
+        attempts,
+        error: error.toJSON(),
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+/**
+ * Create the scheduler from the environment: jobs persisted in SCHEDULE_FILE
+ * (default: ~/.twitter-mcp/schedule.json)
+ */
+function createScheduler(): Scheduler {
+  return new Scheduler(
+    new JsonFileJobBackend(process.env.SCHEDULE_FILE || DEFAULT_SCHEDULE_FILE),
+    TwitterService.getInstance()
+  );
+}
+
+/**
+ * The shared scheduler; jobs run once `start` is called
+ */
+export const scheduler = createScheduler();
@@ -1,25 +1,119 @@
 import {
-  ApiRequestError,
+  ApiResponseError,
+  TweetBookmarksTimelineV2Paginator,
   TweetV2,
+  TweetV2BookmarkResult,
+  TweetV2PaginableTimelineParams,
   TweetV2PaginableTimelineResult,
+  TTweetv2UserField,
   TwitterApi,
+  TwitterV2IncludesHelper,
   UserV2,
   ListV2,
-  InlineErrorV2,
-  EUploadMimeType,
+  SendTweetV2Params,
 } from "twitter-api-v2";
+import {
+  AccessLevel,
+  Config,
+  createClient,
+  credentialKey,
+  refreshOAuth2Token,
+  RefreshedTokens,
+  resolveCredentials,
+} from "./auth.js";
+import { logger } from "../logger.js";
+import {
+  fromInlineError,
+  lookupData,
+  toTwitterServiceError,
+  TwitterServiceError,
+} from "./errors.js";
+import { createResponseCache, LruCacheBackend } from "./cache.js";
+import { planThread, ThreadPart } from "./thread.js";
+import { analyzeText, RecentPosts, TextAnalysis } from "./text.js";
+import { DryRun, dryRunEnabled, isDryRun, writeRequest, WriteRequest } from "./dryrun.js";
+import { buildConversation, Conversation } from "./conversation.js";
+import { lookupErrors, lookupInChunks, LookupResult } from "./lookup.js";
+import {
+  LoadedMedia,
+  loadTweetMedia,
+  MediaInput,
+  uploadMedia,
+  uploadRequests,
+} from "./media.js";
+import {
+  ExpandedList,
+  expandLists,
+  expandTweets,
+  ExpandedTweet,
+  ExpandedUser,
+  expandUsers,
+  FieldOptions,
+  listFieldParams,
+  tweetFieldParams,
+  userFieldParams,
+} from "./fields.js";
+import {
+  collectPages,
+  MAX_PAGINATED_RESULTS,
+  Page,
+  pageSize,
+  PaginationOptions,
+} from "./pagination.js";
+import {
+  createRateLimitPlugin,
+  RateLimitStatus,
+  RateLimitTracker,
+  retryDelay,
+  sleep,
+} from "./ratelimit.js";
+
+/**
+ * A posted tweet of a thread and the part it was split from
+ */
+type PostedThreadTweet = { id: string; text: string; part: number };
+
+// The most clients kept in the pool
+const MAX_CLIENTS = 100;
+
+// The most authenticated users' profiles kept, one per credential
+const MAX_IDENTITIES = 1000;
+
+// How long the authenticated user's profile is reused, configured with
+// IDENTITY_CACHE_TTL_SECONDS (default: 1 hour)
+const IDENTITY_CACHE_TTL_MS =
+  Number(process.env.IDENTITY_CACHE_TTL_SECONDS ?? 3600) * 1000;
 
-type Config = {
-  accessToken?: string;
-  refreshToken?: string;
-};
+// How long a finished token refresh is reused by calls that failed with the
+// old access token, since its refresh token can only be spent once
+const REFRESH_REUSE_MS = 60 * 1000;
+
+const ME_USER_FIELDS: TTweetv2UserField[] = [
+  "created_at",
+  "description",
+  "location",
+  "profile_image_url",
+  "protected",
+  "public_metrics",
+  "url",
+  "verified",
+];
 
 /**
  * Twitter service for interacting with the Twitter API
  */
 export class TwitterService {
   private static instance: TwitterService;
-  private client: TwitterApi | null = null;
+  // Clients keyed by credential, so concurrent calls for different accounts never share one
+  private clients = new Map<string, TwitterApi>();
+  private refreshedTokens = new WeakMap<Config, RefreshedTokens>();
+  // OAuth 2.0 refreshes in flight or just finished, keyed by the refresh token they spend
+  private refreshes = new Map<string, Promise<RefreshedTokens>>();
+  private rateLimits = new RateLimitTracker();
+  // Every token an HTTP server sees gets an entry, so the least recently used are dropped
+  private identities = new LruCacheBackend(MAX_IDENTITIES);
+  private cache = createResponseCache();
+  private recentPosts = new RecentPosts();
 
   /**
    * Private constructor to enforce singleton pattern
@@ -37,363 +131,1178 @@ export class TwitterService {
   }
 
   /**
-   * Initialize the Twitter client with credentials
-   * @returns The initialized Twitter client
+   * Get the Twitter client for the credentials selected by a config,
+   * creating it on first use
+   * @param access The kind of access the caller needs (default: user context)
+   * @returns The Twitter client
    */
-  public getClient(config: Config): TwitterApi {
-    console.log("calling getClient", config);
-    //   console.log('Initializing Twitter client with credentials:', {
-    //     appKey: process.env.TWITTER_API_KEY,
-    //     appSecret: `${process.env.TWITTER_API_KEY_SECRET?.substring(0, 5)}...`,
-    //     accessToken: `${process.env.TWITTER_ACCESS_TOKEN?.substring(0, 5)}...`,
-    //     accessSecret: `${process.env.TWITTER_ACCESS_TOKEN_SECRET?.substring(0, 5)}...`,
-    //   });
+  public getClient(config: Config, access: AccessLevel = "user"): TwitterApi {
+    const credentials = resolveCredentials(config, access);
+    const key = credentialKey(credentials);
+    let client = this.clients.get(key);
+    if (!client) {
+      logger.debug("Initializing Twitter client", { mode: credentials.mode, access });
+      client = createClient(credentials, [
+        createRateLimitPlugin(this.rateLimits, key),
+      ]);
+      this.clients.set(key, client);
+      // Per-call and session tokens keep arriving; drop the least recently created client
+      if (this.clients.size > MAX_CLIENTS) {
+        this.clients.delete(this.clients.keys().next().value!);
+      }
+    }
+    return client;
+  }
+
+  /**
+   * Run an API operation with a client for the given config.
+   * If an OAuth 2.0 user token has expired and a refresh token is available,
+   * the token pair is refreshed and the operation is retried once.
+   * Rate-limited operations are retried once if the window resets soon.
+   * @param access The kind of access the operation needs
+   * @param operation The API calls to make with the client
+   * @returns Promise resolving to the operation result
+   */
+  private async withClient<T>(
+    config: Config,
+    access: AccessLevel,
+    operation: (client: TwitterApi) => Promise<T>
+  ): Promise<T> {
+    const credentials = resolveCredentials(config, access);
+    try {
+      return await this.runWithBackoff(config, access, operation);
+    } catch (error: unknown) {
+      const expired = error instanceof ApiResponseError && error.code === 401;
+      if (
+        !expired ||
+        credentials.mode !== "oauth2-user" ||
+        !credentials.refreshToken
+      ) {
+        logger.warn("Twitter API call failed", error);
+        throw toTwitterServiceError(error);
+      }
 
-    if (!config.accessToken) {
-      throw new Error("Access token is required");
+      // A concurrent call may already have refreshed this config in place
+      if (config.accessToken === credentials.accessToken) {
+        let tokens: RefreshedTokens;
+        try {
+          tokens = await this.refreshTokens(credentials.refreshToken);
+        } catch (refreshError: unknown) {
+          logger.warn("OAuth 2.0 token refresh failed", refreshError);
+          throw new TwitterServiceError(
+            "auth",
+            `The access token expired and could not be refreshed: ${toTwitterServiceError(refreshError).message}`
+          );
+        }
+        this.clients.delete(credentialKey(credentials));
+        if (config.accessToken !== tokens.accessToken) {
+          config.accessToken = tokens.accessToken;
+          config.refreshToken = tokens.refreshToken;
+          this.refreshedTokens.set(config, tokens);
+        }
+      }
+
+      try {
+        return await this.runWithBackoff(config, access, operation);
+      } catch (retryError: unknown) {
+        logger.warn("Twitter API call failed after token refresh", retryError);
+        throw toTwitterServiceError(retryError);
+      }
     }
+  }
 
-    console.log("Initializing Twitter client with credentials:", {
-      accessToken: config.accessToken,
-      refreshToken: config.refreshToken,
-    });
-    this.client = new TwitterApi(config.accessToken);
+  /**
+   * Refresh an OAuth 2.0 token pair once per refresh token: concurrent calls
+   * whose access token expired share the same refresh
+   */
+  private refreshTokens(refreshToken: string): Promise<RefreshedTokens> {
+    let refresh = this.refreshes.get(refreshToken);
+    if (!refresh) {
+      logger.info("Access token rejected, refreshing OAuth 2.0 token pair");
+      refresh = refreshOAuth2Token(refreshToken);
+      this.refreshes.set(refreshToken, refresh);
+      refresh.then(
+        () => {
+          setTimeout(
+            () => this.refreshes.delete(refreshToken),
+            REFRESH_REUSE_MS
+          ).unref();
+        },
+        () => this.refreshes.delete(refreshToken)
+      );
+    }
+    return refresh;
+  }
+
+  /**
+   * Run an API operation, waiting for the rate limit window to reset and
+   * retrying once if it was rejected with HTTP 429 and the reset is near
+   */
+  private async runWithBackoff<T>(
+    config: Config,
+    access: AccessLevel,
+    operation: (client: TwitterApi) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await operation(this.getClient(config, access));
+    } catch (error: unknown) {
+      const delay = retryDelay(error);
+      if (delay === null) {
+        throw error;
+      }
+      logger.info("Rate limited, retrying after the window resets", {
+        delayMs: delay,
+      });
+      await sleep(delay);
+      return operation(this.getClient(config, access));
+    }
+  }
+
+  /**
+   * Run a write operation with user credentials. In dry-run mode the requests
+   * it would make are returned instead and the API is not called.
+   * @param requests The requests `operation` makes
+   */
+  private async write<T>(
+    config: Config,
+    dryRun: boolean,
+    requests: WriteRequest[],
+    operation: (client: TwitterApi) => Promise<T>
+  ): Promise<T | DryRun> {
+    if (dryRunEnabled(dryRun)) {
+      logger.info("Dry run, not sending", {
+        requests: requests.map((request) => `${request.method} ${request.endpoint}`),
+      });
+      return { dryRun: true, requests };
+    }
+    return this.withClient(config, "user", operation);
+  }
 
-    console.log("Twitter client initialized successfully");
-    return this.client;
+  /**
+   * Serve a read-only call from the response cache. Entries are scoped to the
+   * credential, since visibility (protected accounts, blocks) depends on it.
+   * @param tool The tool name, which selects the TTL
+   * @param args The call arguments identifying the response
+   * @param bypassCache Skip the lookup and refresh the cached entry
+   * @param load Fetches the response on a miss
+   */
+  private cached<T>(
+    config: Config,
+    tool: string,
+    args: unknown[],
+    bypassCache: boolean,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const key = `${credentialKey(resolveCredentials(config, "read"))}:${JSON.stringify(args)}`;
+    return this.cache.wrap(tool, key, bypassCache, load);
+  }
+
+  /**
+   * Check a tweet text before posting it: X's weighted length and character
+   * rules, and whether the account recently posted the same text
+   * @param options `hasMedia` allows an empty text
+   */
+  public validateTweet(
+    config: Config,
+    text: string,
+    options: { hasMedia?: boolean } = {}
+  ): TextAnalysis {
+    const analysis = analyzeText(text, options);
+    const account = this.postingAccount(config);
+    const duplicate = account && this.recentPosts.check(account, text);
+    if (!duplicate) {
+      return analysis;
+    }
+    return { ...analysis, valid: false, issues: [...analysis.issues, duplicate] };
+  }
+
+  /**
+   * Reject a text that would fail to post, before any API call
+   * @param label Names the tweet in the message, e.g. within a thread
+   */
+  private assertPostable(
+    config: Config,
+    text: string,
+    options: { hasMedia?: boolean; label?: string } = {}
+  ): void {
+    const analysis = this.validateTweet(config, text, options);
+    if (analysis.valid) {
+      return;
+    }
+    const onlyDuplicate = analysis.issues.every(
+      (issue) => issue.code === "duplicate"
+    );
+    const message = analysis.issues.map((issue) => issue.message).join("; ");
+    throw new TwitterServiceError(
+      onlyDuplicate ? "duplicate_content" : "validation",
+      options.label ? `${options.label}: ${message}` : message,
+      {
+        details: {
+          weightedLength: analysis.weightedLength,
+          maxLength: analysis.maxLength,
+          issues: analysis.issues,
+        },
+      }
+    );
+  }
+
+  /**
+   * The key posted texts are remembered under, if the config has user credentials
+   */
+  private postingAccount(config: Config): string | undefined {
+    try {
+      return credentialKey(resolveCredentials(config, "user"));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the response cache hit/miss counters
+   */
+  public getCacheStats() {
+    return this.cache.stats();
+  }
+
+  /**
+   * Take the token pair rotated while serving calls made with this config, if any.
+   * Callers must persist the returned tokens: the old refresh token is no longer valid.
+   * @returns The rotated tokens, or undefined if no refresh happened
+   */
+  public consumeRefreshedTokens(config: Config): RefreshedTokens | undefined {
+    const tokens = this.refreshedTokens.get(config);
+    this.refreshedTokens.delete(config);
+    return tokens;
   }
 
   /**
    * Get tweets for a specific user
    * @param userId The Twitter user ID
-   * @param paginationToken Optional pagination token for fetching next page
-   * @returns Promise resolving to user timeline data
+   * @param options Page size, pagination token and auto-paging
+   * @param exclude Types of tweets to leave out (default: retweets and replies)
+   * @param fields The fields and expansions to request
+   * @returns Promise resolving to a page of the user's timeline
    */
   public async getUserTweets(
     config: Config,
     userId: string,
-    paginationToken?: string,
+    options: PaginationOptions = {},
     exclude?: ("retweets" | "replies")[],
-    maxResults?: number
-  ): Promise<TweetV2[] | InlineErrorV2[] | ApiRequestError | string> {
-    try {
-      const client = this.getClient(config);
-      const tweets = await client.v2.userTimeline(userId, {
-        exclude: exclude ?? ["retweets", "replies"],
-        max_results: 50,
-        pagination_token: paginationToken,
-      });
-
-      return JSON.stringify({
-        result: tweets.data,
-        message: "Tweets fetched successfully",
-      });
-    } catch (error: any) {
-      // Convert error to a string representation to avoid serialization issues
-      const errorMessage = error;
-      console.error("Error fetching tweets:", errorMessage);
-      return error;
-    }
+    fields: FieldOptions = {},
+    bypassCache: boolean = false
+  ): Promise<Page<ExpandedTweet>> {
+    return this.cached(
+      config,
+      "get_tweets_by_userid",
+      [userId, options, exclude, fields],
+      bypassCache,
+      () =>
+        this.withClient(config, "read", async (client) => {
+          const tweets = await client.v2.userTimeline(userId, {
+            ...tweetFieldParams(fields),
+            exclude: exclude ?? ["retweets", "replies"],
+            max_results: pageSize(options, { min: 5, max: 100 }),
+            pagination_token: options.paginationToken,
+          });
+          const page = await collectPages(tweets, options);
+          return { ...page, data: expandTweets(page.data, tweets.includes) };
+        })
+    );
   }
 
   /**
    * Get a single tweet by ID
    * @param tweetId The ID of the tweet to retrieve
-   * @returns Promise resolving to the tweet data or null if not found
+   * @param fields The fields and expansions to request
+   * @returns Promise resolving to the tweet data
    */
   public async getTweet(
     config: Config,
-    tweetId: string
-  ): Promise<TweetV2 | ApiRequestError> {
-    try {
-      const client = this.getClient(config);
-      const result = await client.v2.singleTweet(tweetId);
-      return result.data;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
-    }
+    tweetId: string,
+    fields: FieldOptions = {},
+    bypassCache: boolean = false
+  ): Promise<ExpandedTweet> {
+    return this.cached(
+      config,
+      "get_tweet_by_id",
+      [tweetId, fields],
+      bypassCache,
+      () =>
+        this.withClient(config, "read", async (client) => {
+          const result = await client.v2.singleTweet(
+            tweetId,
+            tweetFieldParams(fields)
+          );
+          return expandTweets(
+            [lookupData(result, `Tweet ${tweetId}`)],
+            new TwitterV2IncludesHelper(result)
+          )[0];
+        })
+    );
+  }
+
+  /**
+   * Get several tweets by ID, using one request per 100 tweets
+   * @param tweetIds The IDs of the tweets to retrieve
+   * @param fields The fields and expansions to request
+   * @returns Promise resolving to one result per ID, in the given order
+   */
+  public async getTweets(
+    config: Config,
+    tweetIds: string[],
+    fields: FieldOptions = {}
+  ): Promise<LookupResult<ExpandedTweet>[]> {
+    return lookupInChunks(
+      tweetIds,
+      (chunk) =>
+        this.withClient(config, "read", async (client) => {
+          const result = await client.v2.tweets(chunk, tweetFieldParams(fields));
+          return {
+            data: expandTweets(
+              result.data ?? [],
+              new TwitterV2IncludesHelper(result)
+            ),
+            errors: lookupErrors(result.errors, "ids"),
+          };
+        }),
+      (tweet) => tweet.id
+    );
+  }
+
+  /**
+   * Get the conversation a tweet belongs to as a reply tree. Replies are found
+   * with recent search, so only replies from the last 7 days are included.
+   * @param tweetId Any tweet of the conversation
+   * @param options `maxDepth` of the tree and `maxTweets` replies to fetch
+   * @returns Promise resolving to the root and its replies
+   */
+  public async getConversation(
+    config: Config,
+    tweetId: string,
+    options: { maxDepth?: number; maxTweets?: number } = {}
+  ): Promise<Conversation> {
+    const fields = tweetFieldParams({ preset: "standard" });
+    return this.withClient(config, "read", async (client) => {
+      const lookup = async (id: string) => {
+        const result = await client.v2.singleTweet(id, fields);
+        if (!result.data) {
+          return { error: result.errors?.[0] };
+        }
+        return {
+          tweet: expandTweets([result.data], new TwitterV2IncludesHelper(result))[0],
+        };
+      };
+
+      const target = await lookup(tweetId);
+      if (!target.tweet) {
+        throw target.error
+          ? fromInlineError(target.error)
+          : new TwitterServiceError("not_found", `Tweet ${tweetId} not found`);
+      }
+      const conversationId = target.tweet.conversation_id ?? tweetId;
+      const root =
+        conversationId === tweetId
+          ? target.tweet
+          : (await lookup(conversationId)).tweet;
+
+      const maxTweets = Math.min(options.maxTweets ?? 100, MAX_PAGINATED_RESULTS);
+      const replies = await client.v2.search(`conversation_id:${conversationId}`, {
+        ...fields,
+        max_results: pageSize({ limit: maxTweets }, { min: 10, max: 100 }),
+      });
+      const page = await collectPages(replies, { limit: maxTweets });
+      const tweets = expandTweets(page.data, replies.includes);
+      // The target may be too old for recent search; keep it in the tree
+      if (target.tweet !== root && !tweets.some((tweet) => tweet.id === tweetId)) {
+        tweets.push(target.tweet);
+      }
+
+      return buildConversation(
+        conversationId,
+        root,
+        tweets,
+        options.maxDepth ?? 10,
+        Boolean(page.meta.truncated) || page.meta.next_token !== undefined
+      );
+    });
   }
 
   /**
    * Get mentions for a specific user
    * @param userId The Twitter user ID
-   * @param paginationToken Optional pagination token for fetching next page
-   * @param maxResults Optional parameter to specify the number of results to return (default: 10)
-   * @returns Promise resolving to user mention timeline data
+   * @param options Page size, pagination token and auto-paging
+   * @param fields The fields and expansions to request
+   * @returns Promise resolving to a page of mentions
    */
   public async getUserMentionTimeline(
     config: Config,
     userId: string,
-    paginationToken?: string,
-    maxResults?: number
-  ): Promise<TweetV2PaginableTimelineResult | ApiRequestError> {
-    try {
-      const client = this.getClient(config);
+    options: PaginationOptions = {},
+    fields: FieldOptions = {}
+  ): Promise<Page<ExpandedTweet>> {
+    return this.withClient(config, "read", async (client) => {
       const mentions = await client.v2.userMentionTimeline(userId, {
-        max_results: maxResults || 10,
-        pagination_token: paginationToken,
+        ...tweetFieldParams(fields),
+        max_results: pageSize(options, { min: 5, max: 100 }),
+        pagination_token: options.paginationToken,
       });
-      return mentions.data;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
-    }
+      const page = await collectPages(mentions, options);
+      return { ...page, data: expandTweets(page.data, mentions.includes) };
+    });
   }
 
   /**
    * Quote a tweet with a comment
    * @param tweetId The ID of the tweet to quote
    * @param replyText The text to include with the quote
-   * @returns Promise resolving to the created quote tweet data or error
+   * @param media Media to attach: up to four images, or one GIF or video
+   * @param dryRun Return the requests instead of sending them
+   * @returns Promise resolving to the created quote tweet data
    */
   public async quoteAndComment(
     config: Config,
     tweetId: string,
-    replyText: string
-  ): Promise<
-    | {
-        id: string;
-        text: string;
-      }
-    | ApiRequestError
-  > {
-    try {
-      const client = this.getClient(config);
-      const quote = await client.v2.quote(replyText, tweetId);
-      return quote.data;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
-    }
+    replyText: string,
+    media: MediaInput[] = [],
+    dryRun: boolean = false
+  ): Promise<{ id: string; text: string } | DryRun> {
+    this.assertPostable(config, replyText, { hasMedia: media.length > 0 });
+    const loaded = await loadTweetMedia(media);
+    return this.createTweet(
+      config,
+      { text: replyText, quote_tweet_id: tweetId },
+      loaded,
+      dryRun
+    );
   }
 
   /**
    * Reply to a tweet
    * @param tweetId The ID of the tweet to reply to
    * @param replyText The text content of the reply
-   * @returns Promise resolving to the created reply tweet data or error
+   * @param media Media to attach: up to four images, or one GIF or video
+   * @param dryRun Return the requests instead of sending them
+   * @returns Promise resolving to the created reply tweet data
    */
   public async replyToTweet(
     config: Config,
     tweetId: string,
-    replyText: string
-  ): Promise<
-    | {
-        id: string;
-        text: string;
-      }
-    | ApiRequestError
-  > {
-    try {
-      const client = this.getClient(config);
-      const reply = await client.v2.reply(replyText, tweetId);
-      return reply.data;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
-    }
+    replyText: string,
+    media: MediaInput[] = [],
+    dryRun: boolean = false
+  ): Promise<{ id: string; text: string } | DryRun> {
+    this.assertPostable(config, replyText, { hasMedia: media.length > 0 });
+    const loaded = await loadTweetMedia(media);
+    return this.createTweet(
+      config,
+      { text: replyText, reply: { in_reply_to_tweet_id: tweetId } },
+      loaded,
+      dryRun
+    );
   }
 
   /**
-   * Post a new tweet, optionally with an image
+   * Post a new tweet, optionally with media. The media is read and validated
+   * before anything is uploaded.
    * @param text The text content of the tweet
-   * @param imageBase64 Optional base64 encoded image to attach to the tweet
-   * @returns Promise resolving to the created tweet data or error
+   * @param media Media to attach: up to four images, or one GIF or video
+   * @param dryRun Return the requests instead of sending them
+   * @returns Promise resolving to the created tweet data
    */
   public async postTweet(
     config: Config,
     text: string,
-    imageBase64?: string
-  ): Promise<
-    | {
-        id: string;
-        text: string;
+    media: MediaInput[] = [],
+    dryRun: boolean = false
+  ): Promise<{ id: string; text: string } | DryRun> {
+    this.assertPostable(config, text, { hasMedia: media.length > 0 });
+    const loaded = await loadTweetMedia(media);
+    return this.createTweet(config, { text }, loaded, dryRun);
+  }
+
+  /**
+   * Upload the media and post a tweet
+   */
+  private async createTweet(
+    config: Config,
+    body: SendTweetV2Params,
+    media: LoadedMedia[],
+    dryRun: boolean
+  ): Promise<{ id: string; text: string } | DryRun> {
+    const tweet = await this.write(
+      config,
+      dryRun,
+      this.tweetRequests(body, media),
+      async (client) => {
+        const created = await client.v2.tweet({
+          ...body,
+          ...(await this.mediaPayload(client, media)),
+        });
+        return created.data;
       }
-    | ApiRequestError
-  > {
-    try {
-      const client = this.getClient(config);
+    );
+    if (!isDryRun(tweet)) {
+      this.rememberPost(config, body.text ?? "", tweet.id);
+    }
+    return tweet;
+  }
 
-      if (imageBase64) {
-        // Convert base64 to buffer
-        const buffer = Buffer.from(
-          imageBase64.replace(/^data:image\/\w+;base64,/, ""),
-          "base64"
-        );
+  /**
+   * The requests of posting a tweet, with placeholders for media IDs
+   * @param label Tells apart the placeholders of several tweets
+   */
+  private tweetRequests(
+    body: SendTweetV2Params,
+    media: LoadedMedia[],
+    label: string = ""
+  ): WriteRequest[] {
+    const mediaIds = media.map((_, index) => `<media ${index + 1}${label}>`);
+    return [
+      ...media.flatMap((item, index) => uploadRequests(item, mediaIds[index])),
+      writeRequest("POST", "tweets", {
+        ...body,
+        ...(mediaIds.length > 0 ? { media: { media_ids: mediaIds } } : {}),
+      }),
+    ];
+  }
 
-        // Determine image type from base64 string
-        let mimeType = EUploadMimeType.Jpeg;
-        if (imageBase64.includes("data:image/png")) {
-          mimeType = EUploadMimeType.Png;
-        } else if (imageBase64.includes("data:image/gif")) {
-          mimeType = EUploadMimeType.Gif;
-        } else if (imageBase64.includes("data:image/webp")) {
-          mimeType = EUploadMimeType.Webp;
-        }
+  /**
+   * Upload media and build the `media` field of a new tweet
+   */
+  private async mediaPayload(
+    client: TwitterApi,
+    media: LoadedMedia[]
+  ): Promise<Partial<SendTweetV2Params>> {
+    if (media.length === 0) {
+      return {};
+    }
+    const mediaIds: string[] = [];
+    for (const item of media) {
+      mediaIds.push(await uploadMedia(client, item));
+    }
+    return { media: { media_ids: mediaIds as [string] } };
+  }
 
-        // Upload the media
-        const mediaId = await client.v2.uploadMedia(buffer, {
-          media_type: mimeType,
-          media_category: "tweet_image",
-        });
+  /**
+   * Remember a posted text as given, since the API returns links shortened
+   */
+  private rememberPost(config: Config, text: string, tweetId: string): void {
+    const account = this.postingAccount(config);
+    if (account) {
+      this.recentPosts.add(account, text, tweetId);
+    }
+  }
 
-        // Post tweet with media
-        const tweet = await client.v2.tweet({
-          text,
-          media: {
-            media_ids: [mediaId],
+  /**
+   * Post a thread as a chain of replies. Over-long parts are split at
+   * sentence boundaries. Each tweet is posted in its own call, so a retried
+   * call never posts an earlier tweet twice.
+   * @param parts The thread, in order
+   * @param options `numbering` appends ` i/n` to every tweet; `rollback`
+   *   deletes the posted tweets if a later one fails; `dryRun` returns the
+   *   requests instead of sending them
+   * @returns Promise resolving to the posted tweets
+   */
+  public async postThread(
+    config: Config,
+    parts: ThreadPart[],
+    options: { numbering?: boolean; rollback?: boolean; dryRun?: boolean } = {}
+  ): Promise<{ tweets: PostedThreadTweet[] } | DryRun> {
+    if (
+      parts.length === 0 ||
+      parts.some(
+        (part) => !part.text.trim() && !part.imageBase64 && !part.media?.length
+      )
+    ) {
+      throw new TwitterServiceError(
+        "validation",
+        "A thread needs at least one part, and every part needs text or media"
+      );
+    }
+
+    const planned = planThread(parts, options.numbering);
+    // Check every text and medium before the first tweet is posted
+    planned.forEach((tweet, index) =>
+      this.assertPostable(config, tweet.text, {
+        hasMedia: tweet.media.length > 0,
+        label: `Tweet ${index + 1} of ${planned.length}`,
+      })
+    );
+    const media: LoadedMedia[][] = [];
+    for (const tweet of planned) {
+      media.push(await loadTweetMedia(tweet.media));
+    }
+    const body = (index: number, previousId?: string): SendTweetV2Params => ({
+      text: planned[index].text,
+      ...(previousId ? { reply: { in_reply_to_tweet_id: previousId } } : {}),
+    });
+    if (dryRunEnabled(options.dryRun)) {
+      return {
+        dryRun: true,
+        requests: planned.flatMap((_, index) =>
+          this.tweetRequests(
+            body(index, index > 0 ? `<tweet ${index}>` : undefined),
+            media[index],
+            ` of tweet ${index + 1}`
+          )
+        ),
+      };
+    }
+
+    const posted: PostedThreadTweet[] = [];
+    for (const [index, tweet] of planned.entries()) {
+      try {
+        const result = await this.withClient(config, "user", async (client) => {
+          const created = await client.v2.tweet({
+            ...body(index, posted[posted.length - 1]?.id),
+            ...(await this.mediaPayload(client, media[index])),
+          });
+          return created.data;
+        });
+        this.rememberPost(config, tweet.text, result.id);
+        posted.push({ ...result, part: tweet.part });
+      } catch (error: unknown) {
+        const cause = toTwitterServiceError(error);
+        const rollback = options.rollback
+          ? await this.deleteTweets(config, posted.map((tweet) => tweet.id))
+          : undefined;
+        let message = `Thread failed at tweet ${index + 1} of ${planned.length}: ${cause.message}`;
+        if (rollback) {
+          message +=
+            rollback.failed.length > 0
+              ? " (some posted tweets could not be deleted)"
+              : " (the posted tweets were deleted)";
+        }
+        throw new TwitterServiceError(cause.code, message, {
+          status: cause.status,
+          retryAt: cause.retryAt,
+          details: {
+            failedAt: index,
+            failedPart: tweet.part,
+            posted: posted.map(({ id, part }) => ({ id, part })),
+            ...(rollback ? { rollback } : {}),
+            cause: cause.details,
           },
         });
+      }
+    }
+    return { tweets: posted };
+  }
 
-        return tweet.data;
-      } else {
-        // Post text-only tweet
-        const tweet = await client.v2.tweet(text);
-        return tweet.data;
+  /**
+   * Delete tweets newest first, continuing past failures
+   * @returns The IDs deleted and the IDs that could not be deleted
+   */
+  private async deleteTweets(
+    config: Config,
+    tweetIds: string[]
+  ): Promise<{ deleted: string[]; failed: string[] }> {
+    const deleted: string[] = [];
+    const failed: string[] = [];
+    for (const id of [...tweetIds].reverse()) {
+      try {
+        await this.withClient(config, "user", (client) =>
+          client.v2.deleteTweet(id)
+        );
+        deleted.push(id);
+      } catch {
+        failed.push(id);
       }
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
     }
+    return { deleted, failed };
   }
 
   /**
    * Like a tweet with the authenticated user
    * @param tweetId The ID of the tweet to like
-   * @returns Promise resolving to the like response data or error
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the like response data
    */
   public async likeTweet(
     config: Config,
-    tweetId: string
-  ): Promise<
-    | {
-        liked: boolean;
+    tweetId: string,
+    dryRun: boolean = false
+  ): Promise<{ liked: boolean } | DryRun> {
+    const me = await this.getAuthenticatedUser(config);
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("POST", `users/${me.id}/likes`, { tweet_id: tweetId })],
+      async (client) => {
+        const result = await client.v2.like(me.id, tweetId);
+        return { liked: result.data.liked };
       }
-    | ApiRequestError
-  > {
-    try {
-      const client = this.getClient(config);
-      // First get the authenticated user's ID
-      const me = await client.v2.me();
-      const result = await client.v2.like(me.data.id, tweetId);
-      return { liked: result.data.liked };
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
+    );
+  }
+
+  /**
+   * Remove a like of the authenticated user
+   * @param tweetId The ID of the tweet to unlike
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the like status
+   */
+  public async unlikeTweet(
+    config: Config,
+    tweetId: string,
+    dryRun: boolean = false
+  ): Promise<{ liked: boolean } | DryRun> {
+    const me = await this.getAuthenticatedUser(config);
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("DELETE", `users/${me.id}/likes/${tweetId}`)],
+      async (client) => {
+        const result = await client.v2.unlike(me.id, tweetId);
+        return { liked: result.data.liked };
+      }
+    );
+  }
+
+  /**
+   * Retweet a tweet with the authenticated user
+   * @param tweetId The ID of the tweet to retweet
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the retweet status
+   */
+  public async retweet(
+    config: Config,
+    tweetId: string,
+    dryRun: boolean = false
+  ): Promise<{ retweeted: boolean } | DryRun> {
+    const me = await this.getAuthenticatedUser(config);
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("POST", `users/${me.id}/retweets`, { tweet_id: tweetId })],
+      async (client) => {
+        const result = await client.v2.retweet(me.id, tweetId);
+        return { retweeted: result.data.retweeted };
+      }
+    );
+  }
+
+  /**
+   * Undo a retweet of the authenticated user
+   * @param tweetId The ID of the retweeted tweet (not of the retweet itself)
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the retweet status
+   */
+  public async undoRetweet(
+    config: Config,
+    tweetId: string,
+    dryRun: boolean = false
+  ): Promise<{ retweeted: boolean } | DryRun> {
+    const me = await this.getAuthenticatedUser(config);
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("DELETE", `users/${me.id}/retweets/${tweetId}`)],
+      async (client) => {
+        const result = await client.v2.unretweet(me.id, tweetId);
+        return { retweeted: result.data.retweeted };
+      }
+    );
+  }
+
+  /**
+   * Delete a tweet. Only tweets authored by the authenticated user can be
+   * deleted; the author is checked before deleting.
+   * @param tweetId The ID of the tweet to delete
+   * @param dryRun Check the author, then return the request instead of sending it
+   * @returns Promise resolving to the deletion status
+   */
+  public async deleteTweet(
+    config: Config,
+    tweetId: string,
+    dryRun: boolean = false
+  ): Promise<{ deleted: boolean } | DryRun> {
+    const me = await this.getAuthenticatedUser(config);
+    const tweet = lookupData(
+      await this.withClient(config, "user", (client) =>
+        client.v2.singleTweet(tweetId, { "tweet.fields": ["author_id"] })
+      ),
+      `Tweet ${tweetId}`
+    );
+    if (tweet.author_id !== me.id) {
+      throw new TwitterServiceError(
+        "forbidden",
+        `Tweet ${tweetId} was not posted by @${me.username}; only the account's own tweets can be deleted`,
+        { details: { tweetId, authorId: tweet.author_id, userId: me.id } }
+      );
     }
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("DELETE", `tweets/${tweetId}`)],
+      async (client) => {
+        const result = await client.v2.deleteTweet(tweetId);
+        return { deleted: result.data.deleted };
+      }
+    );
+  }
+
+  /**
+   * Bookmark a tweet for the authenticated user
+   * @param tweetId The ID of the tweet to bookmark
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the bookmark status
+   */
+  public async bookmarkTweet(
+    config: Config,
+    tweetId: string,
+    dryRun: boolean = false
+  ): Promise<{ bookmarked: boolean } | DryRun> {
+    const me = await this.getAuthenticatedUser(config);
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("POST", `users/${me.id}/bookmarks`, { tweet_id: tweetId })],
+      async (client) => {
+        // client.v2.bookmark() fetches /users/me on every new client; reuse the cached user
+        const result = await client.v2.post<TweetV2BookmarkResult>(
+          "users/:id/bookmarks",
+          { tweet_id: tweetId },
+          { params: { id: me.id } }
+        );
+        return { bookmarked: result.data.bookmarked };
+      }
+    );
+  }
+
+  /**
+   * Remove a bookmark of the authenticated user
+   * @param tweetId The ID of the bookmarked tweet
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the bookmark status
+   */
+  public async removeBookmark(
+    config: Config,
+    tweetId: string,
+    dryRun: boolean = false
+  ): Promise<{ bookmarked: boolean } | DryRun> {
+    const me = await this.getAuthenticatedUser(config);
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("DELETE", `users/${me.id}/bookmarks/${tweetId}`)],
+      async (client) => {
+        const result = await client.v2.delete<TweetV2BookmarkResult>(
+          "users/:id/bookmarks/:tweet_id",
+          undefined,
+          { params: { id: me.id, tweet_id: tweetId } }
+        );
+        return { bookmarked: result.data.bookmarked };
+      }
+    );
+  }
+
+  /**
+   * Get the bookmarks of the authenticated user, newest first
+   * @param options Page size, pagination token and auto-paging
+   * @param fields The fields and expansions to request
+   * @returns Promise resolving to a page of bookmarked tweets
+   */
+  public async getBookmarks(
+    config: Config,
+    options: PaginationOptions = {},
+    fields: FieldOptions = {}
+  ): Promise<Page<ExpandedTweet>> {
+    const me = await this.getAuthenticatedUser(config);
+    return this.withClient(config, "user", async (client) => {
+      const params: Partial<TweetV2PaginableTimelineParams> = {
+        ...tweetFieldParams(fields),
+        max_results: pageSize(options, { min: 1, max: 100 }),
+        pagination_token: options.paginationToken,
+      };
+      const response = await client.v2.get<TweetV2PaginableTimelineResult>(
+        "users/:id/bookmarks",
+        params,
+        { fullResponse: true, params: { id: me.id } }
+      );
+      const bookmarks = new TweetBookmarksTimelineV2Paginator({
+        realData: response.data,
+        rateLimit: response.rateLimit!,
+        instance: client.v2,
+        queryParams: params,
+        sharedParams: { id: me.id },
+      });
+      const page = await collectPages(bookmarks, options);
+      return { ...page, data: expandTweets(page.data, bookmarks.includes) };
+    });
   }
 
   /**
    * Follow a user
    * @param targetUserId The ID of the user to follow
-   * @returns Promise resolving to the follow response data or error
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the follow response data
    */
   public async followUser(
     config: Config,
-    targetUserId: string
-  ): Promise<
-    | {
-        following: boolean;
-        pending_follow: boolean;
+    targetUserId: string,
+    dryRun: boolean = false
+  ): Promise<{ following: boolean; pending_follow: boolean } | DryRun> {
+    const me = await this.getAuthenticatedUser(config);
+    return this.write(
+      config,
+      dryRun,
+      [
+        writeRequest("POST", `users/${me.id}/following`, {
+          target_user_id: targetUserId,
+        }),
+      ],
+      async (client) => {
+        const result = await client.v2.follow(me.id, targetUserId);
+        return result.data;
       }
-    | ApiRequestError
-  > {
-    try {
-      const client = this.getClient(config);
-      const me = await client.v2.me();
-      const result = await client.v2.follow(me.data.id, targetUserId);
-      return result.data;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
-    }
+    );
   }
 
   /**
    * Unfollow a user
    * @param targetUserId The ID of the user to unfollow
-   * @returns Promise resolving to the unfollow response data or error
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the unfollow response data
    */
   public async unfollowUser(
     config: Config,
-    targetUserId: string
-  ): Promise<
-    | {
-        following: boolean;
+    targetUserId: string,
+    dryRun: boolean = false
+  ): Promise<{ following: boolean } | DryRun> {
+    const me = await this.getAuthenticatedUser(config);
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("DELETE", `users/${me.id}/following/${targetUserId}`)],
+      async (client) => {
+        const result = await client.v2.unfollow(me.id, targetUserId);
+        return result.data;
       }
-    | ApiRequestError
-  > {
-    try {
-      const client = this.getClient(config);
-      const me = await client.v2.me();
-      const result = await client.v2.unfollow(me.data.id, targetUserId);
-      return result.data;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
+    );
+  }
+
+  /**
+   * Get the followers of a user, most recent first
+   * @param userId The ID of the user (default: the authenticated user)
+   * @param options Page size, pagination token and auto-paging
+   * @param fields The user fields to request
+   * @returns Promise resolving to a page of users
+   */
+  public async getFollowers(
+    config: Config,
+    userId?: string,
+    options: PaginationOptions = {},
+    fields: FieldOptions = {}
+  ): Promise<Page<ExpandedUser>> {
+    return this.getFollowGraph(config, "followers", userId, options, fields);
+  }
+
+  /**
+   * Get the users a user follows, most recent first
+   * @param userId The ID of the user (default: the authenticated user)
+   * @param options Page size, pagination token and auto-paging
+   * @param fields The user fields to request
+   * @returns Promise resolving to a page of users
+   */
+  public async getFollowing(
+    config: Config,
+    userId?: string,
+    options: PaginationOptions = {},
+    fields: FieldOptions = {}
+  ): Promise<Page<ExpandedUser>> {
+    return this.getFollowGraph(config, "following", userId, options, fields);
+  }
+
+  private async getFollowGraph(
+    config: Config,
+    direction: "followers" | "following",
+    userId: string | undefined,
+    options: PaginationOptions,
+    fields: FieldOptions
+  ): Promise<Page<ExpandedUser>> {
+    const targetId = userId ?? (await this.getAuthenticatedUser(config)).id;
+    return this.withClient(config, userId ? "read" : "user", async (client) => {
+      const users = await client.v2[direction](targetId, {
+        ...userFieldParams(fields),
+        max_results: pageSize(options, { min: 1, max: 1000 }),
+        pagination_token: options.paginationToken,
+        asPaginator: true,
+      });
+      const page = await collectPages(users, options);
+      return { ...page, data: expandUsers(page.data, users.includes) };
+    });
+  }
+
+  /**
+   * Get how the authenticated user and another user are connected. The API
+   * only reports this to the authenticated user, so a user token is required.
+   * @param targetUserId The ID of the other user
+   * @returns Promise resolving to the follow, block and mute status
+   */
+  public async getRelationship(
+    config: Config,
+    targetUserId: string
+  ): Promise<{
+    source_id: string;
+    target_id: string;
+    target_username: string;
+    following: boolean;
+    followed_by: boolean;
+    follow_request_sent: boolean;
+    follow_request_received: boolean;
+    blocking: boolean;
+    muting: boolean;
+  }> {
+    const me = await this.getAuthenticatedUser(config);
+    if (targetUserId === me.id) {
+      throw new TwitterServiceError(
+        "validation",
+        "The target user is the authenticated user"
+      );
     }
+    return this.withClient(config, "user", async (client) => {
+      const target = lookupData(
+        await client.v2.user(targetUserId, {
+          "user.fields": ["connection_status", "username"],
+        }),
+        `User ${targetUserId}`
+      );
+      const status = target.connection_status ?? [];
+      return {
+        source_id: me.id,
+        target_id: target.id,
+        target_username: target.username,
+        following: status.includes("following"),
+        followed_by: status.includes("followed_by"),
+        follow_request_sent: status.includes("follow_request_sent"),
+        follow_request_received: status.includes("follow_request_received"),
+        blocking: status.includes("blocking"),
+        muting: status.includes("muting"),
+      };
+    });
   }
 
   /**
    * Get user information by username
    * @param username The Twitter username (without @ symbol)
-   * @returns Promise resolving to the user data or error
+   * @param fields The fields to request; the pinned tweet is expanded
+   * @returns Promise resolving to the user data
    */
   public async getUserByUsername(
     config: Config,
-    username: string
-  ): Promise<UserV2 | ApiRequestError> {
-    try {
-      const client = this.getClient(config);
-      const result = await client.v2.userByUsername(username);
-      return result.data;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
+    username: string,
+    fields: FieldOptions = {},
+    bypassCache: boolean = false
+  ): Promise<ExpandedUser> {
+    return this.cached(
+      config,
+      "get_user_by_username",
+      [username.toLowerCase(), fields],
+      bypassCache,
+      () =>
+        this.withClient(config, "read", async (client) => {
+          const result = await client.v2.userByUsername(
+            username,
+            userFieldParams(fields)
+          );
+          return expandUsers(
+            [lookupData(result, `User @${username}`)],
+            new TwitterV2IncludesHelper(result)
+          )[0];
+        })
+    );
+  }
+
+  /**
+   * Get several users by ID or username, using one request per 100 users
+   * @param lookup Either `ids` or `usernames` (without @ symbol)
+   * @param fields The fields to request; pinned tweets are expanded
+   * @returns Promise resolving to one result per ID or username, in the given order
+   */
+  public async getUsers(
+    config: Config,
+    lookup: { ids?: string[]; usernames?: string[] },
+    fields: FieldOptions = {}
+  ): Promise<LookupResult<ExpandedUser>[]> {
+    const byUsername = lookup.usernames !== undefined;
+    if (byUsername === (lookup.ids !== undefined)) {
+      throw new TwitterServiceError(
+        "validation",
+        "Pass either ids or usernames"
+      );
     }
+    const queries = byUsername
+      ? lookup.usernames!.map((username) => username.replace(/^@/, ""))
+      : lookup.ids!;
+    return lookupInChunks(
+      queries,
+      (chunk) =>
+        this.withClient(config, "read", async (client) => {
+          const params = userFieldParams(fields);
+          const result = byUsername
+            ? await client.v2.usersByUsernames(chunk, params)
+            : await client.v2.users(chunk, params);
+          return {
+            data: expandUsers(
+              result.data ?? [],
+              new TwitterV2IncludesHelper(result)
+            ),
+            errors: lookupErrors(
+              result.errors,
+              byUsername ? "usernames" : "ids"
+            ),
+          };
+        }),
+      (user) => (byUsername ? user.username : user.id),
+      byUsername ? (username) => username.toLowerCase() : undefined
+    );
   }
 
   /**
    * Search tweets with a query
    * @param query The search query
-   * @param maxResults Maximum number of results to return (default: 10)
-   * @returns Promise resolving to an array of tweets or error
+   * @param options Page size, pagination token and auto-paging
+   * @param fields The fields and expansions to request
+   * @returns Promise resolving to a page of matching tweets
    */
   public async searchTweets(
     config: Config,
     query: string,
-    maxResults: number = 10
-  ): Promise<TweetV2[] | ApiRequestError> {
-    try {
-      const client = this.getClient(config);
-      const result = await client.v2.search(query, {
-        max_results: maxResults,
-      });
-      return result.data.data;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
-    }
+    options: PaginationOptions = {},
+    fields: FieldOptions = {},
+    bypassCache: boolean = false
+  ): Promise<Page<ExpandedTweet>> {
+    return this.cached(
+      config,
+      "search_tweets",
+      [query, options, fields],
+      bypassCache,
+      () =>
+        this.withClient(config, "read", async (client) => {
+          const result = await client.v2.search(query, {
+            ...tweetFieldParams(fields),
+            max_results: pageSize(options, { min: 10, max: 100 }),
+            next_token: options.paginationToken,
+          });
+          const page = await collectPages(result, options);
+          return { ...page, data: expandTweets(page.data, result.includes) };
+        })
+    );
   }
 
   /**
    * Get trending topics for a specific location
    * @param woeid The "Where On Earth ID" (WOEID) for the location (e.g., 1 for worldwide)
-   * @returns Promise resolving to trending topics or error
+   * @returns Promise resolving to trending topics
    */
   public async getTrendingTopics(
     config: Config,
     woeid: number = 1
-  ): Promise<any | ApiRequestError> {
-    try {
-      const client = this.getClient(config);
+  ): Promise<any> {
+    return this.withClient(config, "read", async (client) => {
       const result = await client.v1.trendsAvailable();
       return result;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
-    }
+    });
   }
 
   /**
@@ -401,95 +1310,349 @@ export class TwitterService {
    * @param name The name of the list
    * @param description Optional description for the list
    * @param isPrivate Whether the list should be private (default: false)
-   * @returns Promise resolving to the created list data or error
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the created list data
    */
   public async createList(
     config: Config,
     name: string,
     description?: string,
-    isPrivate: boolean = false
-  ): Promise<ListV2 | ApiRequestError> {
-    try {
-      const client = this.getClient(config);
-      const result = await client.v2.createList({
-        name,
-        description,
-        private: isPrivate,
-      });
-      return result.data;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
-    }
+    isPrivate: boolean = false,
+    dryRun: boolean = false
+  ): Promise<ListV2 | DryRun> {
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("POST", "lists", { name, description, private: isPrivate })],
+      async (client) => {
+        const result = await client.v2.createList({
+          name,
+          description,
+          private: isPrivate,
+        });
+        return result.data;
+      }
+    );
   }
 
   /**
    * Add a member to a list
    * @param listId The ID of the list
    * @param userId The ID of the user to add
-   * @returns Promise resolving to the response data or error
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the response data
    */
   public async addListMember(
     config: Config,
     listId: string,
-    userId: string
-  ): Promise<
-    | {
-        is_member: boolean;
+    userId: string,
+    dryRun: boolean = false
+  ): Promise<{ is_member: boolean } | DryRun> {
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("POST", `lists/${listId}/members`, { user_id: userId })],
+      async (client) => {
+        const result = await client.v2.addListMember(listId, userId);
+        return result.data;
       }
-    | ApiRequestError
-  > {
-    try {
-      const client = this.getClient(config);
-      const result = await client.v2.addListMember(listId, userId);
-      return result.data;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
-    }
+    );
   }
 
   /**
    * Remove a member from a list
    * @param listId The ID of the list
    * @param userId The ID of the user to remove
-   * @returns Promise resolving to the response data or error
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the response data
    */
   public async removeListMember(
     config: Config,
     listId: string,
-    userId: string
-  ): Promise<
-    | {
-        is_member: boolean;
+    userId: string,
+    dryRun: boolean = false
+  ): Promise<{ is_member: boolean } | DryRun> {
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("DELETE", `lists/${listId}/members/${userId}`)],
+      async (client) => {
+        const result = await client.v2.removeListMember(listId, userId);
+        return result.data;
       }
-    | ApiRequestError
-  > {
-    try {
-      const client = this.getClient(config);
-      const result = await client.v2.removeListMember(listId, userId);
-      return result.data;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
-    }
+    );
   }
 
   /**
    * Get lists owned by the authenticated user
-   * @returns Promise resolving to an array of lists or error
+   * @param options Page size, pagination token and auto-paging
+   * @returns Promise resolving to a page of lists
    */
   public async getOwnedLists(
-    config: Config
-  ): Promise<ListV2[] | ApiRequestError> {
-    try {
-      const client = this.getClient(config);
-      const me = await client.v2.me();
-      const result = await client.v2.listsOwned(me.data.id);
-      return result.data.data;
-    } catch (error: unknown) {
-      // @ts-ignore
-      return error;
+    config: Config,
+    options: PaginationOptions = {}
+  ): Promise<Page<ExpandedList>> {
+    const me = await this.getAuthenticatedUser(config);
+    return this.withClient(config, "user", async (client) => {
+      const result = await client.v2.listsOwned(me.id, {
+        ...listFieldParams(),
+        max_results: pageSize(options, { min: 1, max: 100 }),
+        pagination_token: options.paginationToken,
+      });
+      const page = await collectPages(result, options);
+      return { ...page, data: expandLists(page.data, result.includes) };
+    });
+  }
+
+  /**
+   * Get a list by ID
+   * @param listId The ID of the list
+   * @returns Promise resolving to the list with its owner
+   */
+  public async getList(config: Config, listId: string): Promise<ExpandedList> {
+    return this.withClient(config, "read", async (client) => {
+      const result = await client.v2.list(listId, listFieldParams());
+      return expandLists(
+        [lookupData(result, `List ${listId}`)],
+        new TwitterV2IncludesHelper(result)
+      )[0];
+    });
+  }
+
+  /**
+   * Update the name, description or visibility of an owned list
+   * @param listId The ID of the list
+   * @param changes The properties to change
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the update status
+   */
+  public async updateList(
+    config: Config,
+    listId: string,
+    changes: { name?: string; description?: string; isPrivate?: boolean },
+    dryRun: boolean = false
+  ): Promise<{ updated: boolean } | DryRun> {
+    if (
+      changes.name === undefined &&
+      changes.description === undefined &&
+      changes.isPrivate === undefined
+    ) {
+      throw new TwitterServiceError(
+        "validation",
+        "Nothing to update: pass a name, description or isPrivate"
+      );
     }
+    const update = {
+      name: changes.name,
+      description: changes.description,
+      private: changes.isPrivate,
+    };
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("PUT", `lists/${listId}`, update)],
+      async (client) => {
+        const result = await client.v2.updateList(listId, update);
+        return result.data;
+      }
+    );
+  }
+
+  /**
+   * Delete an owned list
+   * @param listId The ID of the list
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the deletion status
+   */
+  public async deleteList(
+    config: Config,
+    listId: string,
+    dryRun: boolean = false
+  ): Promise<{ deleted: boolean } | DryRun> {
+    return this.write(
+      config,
+      dryRun,
+      [writeRequest("DELETE", `lists/${listId}`)],
+      async (client) => {
+        const result = await client.v2.removeList(listId);
+        return result.data;
+      }
+    );
+  }
+
+  /**
+   * Get the members of a list
+   * @param listId The ID of the list
+   * @param options Page size, pagination token and auto-paging
+   * @param fields The user fields to request
+   * @returns Promise resolving to a page of users
+   */
+  public async getListMembers(
+    config: Config,
+    listId: string,
+    options: PaginationOptions = {},
+    fields: FieldOptions = {}
+  ): Promise<Page<ExpandedUser>> {
+    return this.withClient(config, "read", async (client) => {
+      const members = await client.v2.listMembers(listId, {
+        ...userFieldParams(fields),
+        max_results: pageSize(options, { min: 1, max: 100 }),
+        pagination_token: options.paginationToken,
+      });
+      const page = await collectPages(members, options);
+      return { ...page, data: expandUsers(page.data, members.includes) };
+    });
+  }
+
+  /**
+   * Get the timeline of a list, newest first
+   * @param listId The ID of the list
+   * @param options Page size, pagination token and auto-paging
+   * @param fields The fields and expansions to request
+   * @returns Promise resolving to a page of tweets
+   */
+  public async getListTweets(
+    config: Config,
+    listId: string,
+    options: PaginationOptions = {},
+    fields: FieldOptions = {}
+  ): Promise<Page<ExpandedTweet>> {
+    return this.withClient(config, "read", async (client) => {
+      const tweets = await client.v2.listTweets(listId, {
+        ...tweetFieldParams(fields),
+        max_results: pageSize(options, { min: 1, max: 100 }),
+        pagination_token: options.paginationToken,
+      });
+      const page = await collectPages(tweets, options);
+      return { ...page, data: expandTweets(page.data, tweets.includes) };
+    });
+  }
+
+  /**
+   * Get the lists a user is a member of
+   * @param userId The ID of the user (default: the authenticated user)
+   * @param options Page size, pagination token and auto-paging
+   * @returns Promise resolving to a page of lists
+   */
+  public async getListMemberships(
+    config: Config,
+    userId?: string,
+    options: PaginationOptions = {}
+  ): Promise<Page<ExpandedList>> {
+    const memberId = userId ?? (await this.getAuthenticatedUser(config)).id;
+    return this.withClient(config, userId ? "read" : "user", async (client) => {
+      const lists = await client.v2.listMemberships(memberId, {
+        ...listFieldParams(),
+        max_results: pageSize(options, { min: 1, max: 100 }),
+        pagination_token: options.paginationToken,
+      });
+      const page = await collectPages(lists, options);
+      return { ...page, data: expandLists(page.data, lists.includes) };
+    });
+  }
+
+  /**
+   * Follow or unfollow a list with the authenticated user
+   * @param listId The ID of the list
+   * @param follow Whether to follow (true) or unfollow (false) the list
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the follow status
+   */
+  public async setListFollowed(
+    config: Config,
+    listId: string,
+    follow: boolean,
+    dryRun: boolean = false
+  ): Promise<{ following: boolean } | DryRun> {
+    const me = await this.getAuthenticatedUser(config);
+    return this.write(
+      config,
+      dryRun,
+      [
+        follow
+          ? writeRequest("POST", `users/${me.id}/followed_lists`, { list_id: listId })
+          : writeRequest("DELETE", `users/${me.id}/followed_lists/${listId}`),
+      ],
+      async (client) => {
+        const result = follow
+          ? await client.v2.subscribeToList(me.id, listId)
+          : await client.v2.unsubscribeOfList(me.id, listId);
+        return result.data;
+      }
+    );
+  }
+
+  /**
+   * Pin or unpin a list for the authenticated user
+   * @param listId The ID of the list
+   * @param pin Whether to pin (true) or unpin (false) the list
+   * @param dryRun Return the request instead of sending it
+   * @returns Promise resolving to the pin status
+   */
+  public async setListPinned(
+    config: Config,
+    listId: string,
+    pin: boolean,
+    dryRun: boolean = false
+  ): Promise<{ pinned: boolean } | DryRun> {
+    const me = await this.getAuthenticatedUser(config);
+    return this.write(
+      config,
+      dryRun,
+      [
+        pin
+          ? writeRequest("POST", `users/${me.id}/pinned_lists`, { list_id: listId })
+          : writeRequest("DELETE", `users/${me.id}/pinned_lists/${listId}`),
+      ],
+      async (client) => {
+        const result = pin
+          ? await client.v2.pinList(me.id, listId)
+          : await client.v2.unpinList(me.id, listId);
+        return result.data;
+      }
+    );
+  }
+
+  /**
+   * Get the last known rate limit status of every endpoint called with the
+   * credentials in use for this config
+   * @returns Promise resolving to the quota per endpoint
+   */
+  public async getRateLimitStatus(config: Config): Promise<{
+    credential: string;
+    endpoints: RateLimitStatus[];
+  }> {
+    const key = credentialKey(resolveCredentials(config, "read"));
+    return { credential: key, endpoints: this.rateLimits.list(key) };
+  }
+
+  /**
+   * Get the user the credentials of a config belong to. The profile is cached
+   * per credential, since `/users/me` has a tight rate limit.
+   * @param bypassCache Fetch the profile even if a cached one is still fresh
+   * @returns Promise resolving to the authenticated user
+   */
+  public async getAuthenticatedUser(
+    config: Config,
+    bypassCache: boolean = false
+  ): Promise<UserV2> {
+    const key = credentialKey(resolveCredentials(config, "user"));
+    const cached = this.identities.get(key);
+    if (cached && cached.expiresAt <= Date.now()) {
+      this.identities.delete(key);
+    } else if (!bypassCache && cached) {
+      return cached.value as UserV2;
+    }
+
+    const user = await this.withClient(config, "user", async (client) => {
+      const me = await client.v2.me({ "user.fields": ME_USER_FIELDS });
+      return lookupData(me, "Authenticated user");
+    });
+    // Keyed after the call: a token refresh changes the credential key
+    this.identities.set(credentialKey(resolveCredentials(config, "user")), {
+      value: user,
+      expiresAt: Date.now() + IDENTITY_CACHE_TTL_MS,
+    });
+    return user;
   }
 }
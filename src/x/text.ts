@@ -0,0 +1,227 @@
+/**
+ * The most weighted characters in a standard tweet
+ */
+export const MAX_TWEET_LENGTH = 280;
+
+/**
+ * Every URL counts as this many characters, whatever its length, because X
+ * wraps it in a t.co link
+ */
+export const URL_LENGTH = 23;
+
+// Code points counted as one character; everything else counts as two
+// (twitter-text v3 configuration)
+const LIGHT_RANGES: [number, number][] = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037],
+];
+
+// Characters X rejects anywhere in a tweet
+const INVALID_CHARACTERS = /[\uFFFE\uFEFF\uFFFF]/g;
+
+const TLDS = [
+  "com", "org", "net", "edu", "gov", "io", "co", "ai", "app", "dev", "me",
+  "tv", "info", "biz", "ly", "gl", "gg", "xyz", "us", "uk", "ca", "au",
+  "de", "fr", "es", "it", "nl", "eu", "jp", "in", "br", "ru",
+];
+
+// Links with a scheme, or bare domains with a common TLD; not the domain of
+// an email address
+const URL_PATTERN = new RegExp(
+  `(?<![\\w@.\\/-])(?:https?:\\/\\/[^\\s<>"]+|(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\\.)+(?:${TLDS.join("|")})(?![\\w-])(?:[/?#][^\\s<>"]*)?)`,
+  "giu"
+);
+
+const MENTION_PATTERN = /(?<![\w@＠!#$%&*])[@＠](\w{1,15})(?![\w@＠])/gu;
+
+// Hashtags need at least one letter, `#2024` is not one
+const HASHTAG_PATTERN =
+  /(?<![\w&#＃])[#＃]([\p{L}\p{M}\p{N}_]*[\p{L}\p{M}_][\p{L}\p{M}\p{N}_]*)/gu;
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}|\p{Regional_Indicator}|\u20E3/u;
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+/**
+ * A problem that keeps a text from being posted, with enough detail to fix it
+ */
+export type TextIssue =
+  | { code: "empty"; message: string }
+  | { code: "too_long"; message: string; overBy: number }
+  | { code: "invalid_character"; message: string; index: number; character: string }
+  | { code: "duplicate"; message: string; tweetId: string; postedAt: string };
+
+/**
+ * The result of checking a tweet text before posting it
+ */
+export type TextAnalysis = {
+  valid: boolean;
+  /** The length X counts: URLs as 23, CJK characters and emoji as 2 */
+  weightedLength: number;
+  maxLength: number;
+  /** Negative when the text is too long */
+  remaining: number;
+  urls: string[];
+  mentions: string[];
+  hashtags: string[];
+  issues: TextIssue[];
+};
+
+/**
+ * Split text into user-perceived characters, keeping emoji sequences whole
+ */
+export function graphemes(text: string): string[] {
+  return [...segmenter.segment(text)].map(({ segment }) => segment);
+}
+
+function codePointWeight(codePoint: number): number {
+  return LIGHT_RANGES.some(([from, to]) => codePoint >= from && codePoint <= to)
+    ? 1
+    : 2;
+}
+
+function urlMatches(text: string): { url: string; index: number }[] {
+  return [...text.matchAll(URL_PATTERN)].map((match) => ({
+    // Trailing punctuation ends the sentence, not the link
+    url: match[0].replace(/[.,:;!?'"’”)\]]+$/, ""),
+    index: match.index!,
+  }));
+}
+
+/**
+ * Count a text the way X does: URLs as 23 characters, emoji as 2, and
+ * characters outside Latin and common punctuation (e.g. CJK) as 2
+ */
+export function weightedLength(text: string): number {
+  const normalized = text.normalize("NFC");
+  let length = 0;
+  let position = 0;
+  const count = (piece: string) => {
+    for (const grapheme of graphemes(piece)) {
+      length += EMOJI_PATTERN.test(grapheme)
+        ? 2
+        : [...grapheme].reduce(
+            (sum, character) => sum + codePointWeight(character.codePointAt(0)!),
+            0
+          );
+    }
+  };
+  for (const { url, index } of urlMatches(normalized)) {
+    count(normalized.slice(position, index));
+    length += URL_LENGTH;
+    position = index + url.length;
+  }
+  count(normalized.slice(position));
+  return length;
+}
+
+export function extractUrls(text: string): string[] {
+  return urlMatches(text.normalize("NFC")).map(({ url }) => url);
+}
+
+/**
+ * The usernames mentioned in a text, without the @
+ */
+export function extractMentions(text: string): string[] {
+  return [...text.matchAll(MENTION_PATTERN)].map((match) => match[1]);
+}
+
+/**
+ * The hashtags of a text, without the #
+ */
+export function extractHashtags(text: string): string[] {
+  return [...text.matchAll(HASHTAG_PATTERN)].map((match) => match[1]);
+}
+
+/**
+ * Check a tweet text against X's length and character rules
+ * @param options `hasMedia` allows an empty text
+ */
+export function analyzeText(
+  text: string,
+  options: { hasMedia?: boolean } = {}
+): TextAnalysis {
+  const length = weightedLength(text);
+  const issues: TextIssue[] = [];
+  if (!text.trim() && !options.hasMedia) {
+    issues.push({ code: "empty", message: "The text is empty" });
+  }
+  if (length > MAX_TWEET_LENGTH) {
+    const overBy = length - MAX_TWEET_LENGTH;
+    issues.push({
+      code: "too_long",
+      message: `The text is ${length} weighted characters, ${overBy} over the limit of ${MAX_TWEET_LENGTH}. Shorten it, or use post_thread to split it into several tweets`,
+      overBy,
+    });
+  }
+  for (const match of text.matchAll(INVALID_CHARACTERS)) {
+    const character = `U+${match[0].codePointAt(0)!.toString(16).toUpperCase()}`;
+    issues.push({
+      code: "invalid_character",
+      message: `Remove the invalid character ${character} at index ${match.index}`,
+      index: match.index!,
+      character,
+    });
+  }
+  return {
+    valid: issues.length === 0,
+    weightedLength: length,
+    maxLength: MAX_TWEET_LENGTH,
+    remaining: MAX_TWEET_LENGTH - length,
+    urls: extractUrls(text),
+    mentions: extractMentions(text),
+    hashtags: extractHashtags(text),
+    issues,
+  };
+}
+
+// How long posted texts are remembered to catch duplicates
+const DUPLICATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+// The most posted texts remembered per account
+const MAX_RECENT_POSTS = 100;
+
+function duplicateKey(text: string): string {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Texts recently posted by each account, since X rejects a tweet identical to
+ * a recent one only after the request
+ */
+export class RecentPosts {
+  private posts = new Map<string, { key: string; id: string; postedAt: number }[]>();
+
+  public add(account: string, text: string, tweetId: string): void {
+    const posts = this.recent(account);
+    posts.push({ key: duplicateKey(text), id: tweetId, postedAt: Date.now() });
+    this.posts.set(account, posts.slice(-MAX_RECENT_POSTS));
+  }
+
+  /**
+   * The duplicate issue for a text the account posted recently, if any
+   */
+  public check(account: string, text: string): TextIssue | undefined {
+    const key = duplicateKey(text);
+    if (!key) {
+      return undefined;
+    }
+    const previous = this.recent(account).find((post) => post.key === key);
+    if (!previous) {
+      return undefined;
+    }
+    const postedAt = new Date(previous.postedAt).toISOString();
+    return {
+      code: "duplicate",
+      message: `The same text was posted at ${postedAt} (tweet ${previous.id}); X rejects duplicate tweets, so change the wording`,
+      tweetId: previous.id,
+      postedAt,
+    };
+  }
+
+  private recent(account: string) {
+    const cutoff = Date.now() - DUPLICATE_WINDOW_MS;
+    return (this.posts.get(account) ?? []).filter((post) => post.postedAt > cutoff);
+  }
+}
@@ -0,0 +1,127 @@
+import type { MediaInput } from "./media.js";
+import { graphemes, MAX_TWEET_LENGTH, weightedLength } from "./text.js";
+
+/**
+ * One entry of a thread as given by the caller; long text may become several tweets
+ */
+export type ThreadPart = {
+  /** May be empty when the part has media */
+  text: string;
+  /** Media attached to the first tweet of the part */
+  media?: MediaInput[];
+  /** Deprecated: use `media`. Base64 encoded image, attached like `media` */
+  imageBase64?: string;
+};
+
+/**
+ * One tweet of a thread, ready to post
+ */
+export type ThreadTweet = {
+  text: string;
+  media: MediaInput[];
+  /** Index of the part the tweet was split from */
+  part: number;
+};
+
+/**
+ * Greedily join segments into chunks of at most `limit` weighted characters.
+ * Segments keep their trailing whitespace, which is trimmed at chunk boundaries.
+ */
+function pack(
+  segments: string[],
+  limit: number,
+  splitSegment: (segment: string) => string[]
+): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const segment of segments) {
+    if (weightedLength((current + segment).trim()) <= limit) {
+      current += segment;
+      continue;
+    }
+    if (current.trim()) {
+      chunks.push(current.trim());
+    }
+    current = "";
+    if (weightedLength(segment.trim()) <= limit) {
+      current = segment;
+    } else {
+      const pieces = splitSegment(segment);
+      chunks.push(...pieces.slice(0, -1));
+      current = pieces[pieces.length - 1] ?? "";
+    }
+  }
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+  return chunks;
+}
+
+function splitHard(text: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const character of graphemes(text.trim())) {
+    if (current && weightedLength(current + character) > limit) {
+      chunks.push(current);
+      current = "";
+    }
+    current += character;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+function splitWords(text: string, limit: number): string[] {
+  const words = text.match(/\S+\s*/g) ?? [];
+  return pack(words, limit, (word) => splitHard(word, limit));
+}
+
+/**
+ * Split text into tweets of at most `limit` weighted characters, preferring
+ * sentence boundaries, then word boundaries
+ */
+export function splitText(text: string, limit: number = MAX_TWEET_LENGTH): string[] {
+  const sentences = text.match(/[^.!?…\n]+(?:[.!?…]+["'”’)\]]*)?\s*|\n+/g) ?? [];
+  return pack(sentences, limit, (sentence) => splitWords(sentence, limit));
+}
+
+/**
+ * Turn thread parts into the tweets to post, splitting over-long parts
+ * @param numbering Append ` i/n` to every tweet
+ */
+export function planThread(
+  parts: ThreadPart[],
+  numbering: boolean = false
+): ThreadTweet[] {
+  const split = (reserved: number) =>
+    parts.flatMap((part, index) => {
+      const chunks = splitText(part.text, MAX_TWEET_LENGTH - reserved);
+      const media = [
+        ...(part.imageBase64 ? [{ source: part.imageBase64 }] : []),
+        ...(part.media ?? []),
+      ];
+      // A part of media only is one tweet without text
+      return (chunks.length > 0 ? chunks : [""]).map((text, chunk) => ({
+        text,
+        part: index,
+        media: chunk === 0 ? media : [],
+      }));
+    });
+
+  let tweets = split(0);
+  if (!numbering) {
+    return tweets;
+  }
+  // The suffix length depends on the tweet count, which depends on the suffix length
+  let reserved = 0;
+  while (weightedLength(` ${tweets.length}/${tweets.length}`) > reserved) {
+    reserved = weightedLength(` ${tweets.length}/${tweets.length}`);
+    tweets = split(reserved);
+  }
+  return tweets.map((tweet, index) => ({
+    ...tweet,
+    text: `${tweet.text} ${index + 1}/${tweets.length}`.trim(),
+  }));
+}
@@ -0,0 +1,103 @@
+import { TwitterServiceError } from "./errors.js";
+
+// An instant with its UTC offset, e.g. `2026-10-20T09:00:00+02:00` or `...Z`
+const OFFSET_PATTERN = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+// A wall-clock time without an offset, e.g. `2026-10-20T09:00` or `2026-10-20 09:00:30`
+const LOCAL_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * Throw unless a time zone is a known IANA name such as `Europe/Berlin`
+ */
+export function assertTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new TwitterServiceError(
+      "validation",
+      `Unknown time zone "${timeZone}"; use an IANA name such as Europe/Berlin or UTC`
+    );
+  }
+}
+
+/**
+ * The wall-clock fields of an instant in a time zone
+ */
+function wallClock(instant: number, timeZone: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  return Object.fromEntries(
+    parts
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, Number(part.value)])
+  );
+}
+
+/**
+ * How far a time zone's wall clock is ahead of UTC at an instant, in milliseconds
+ */
+function timeZoneOffset(instant: number, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = wallClock(instant, timeZone);
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Parse a time given with a UTC offset, or as a wall-clock time in a time zone
+ * @param at ISO 8601, e.g. `2026-10-20T09:00:00Z`, or `2026-10-20T09:00` read in `timeZone`
+ * @returns Epoch milliseconds
+ */
+export function parseTime(at: string, timeZone: string): number {
+  const input = at.trim();
+  if (OFFSET_PATTERN.test(input)) {
+    const instant = Date.parse(input);
+    if (Number.isNaN(instant)) {
+      throw new TwitterServiceError("validation", `Invalid time "${at}"`);
+    }
+    return instant;
+  }
+
+  const match = LOCAL_PATTERN.exec(input);
+  if (!match) {
+    throw new TwitterServiceError(
+      "validation",
+      `Invalid time "${at}"; expected ISO 8601 such as 2026-10-20T09:00, with an optional offset`
+    );
+  }
+  assertTimeZone(timeZone);
+  const [year, month, day, hour, minute, second = 0] = match
+    .slice(1)
+    .map((field) => (field === undefined ? undefined : Number(field)));
+  const guess = Date.UTC(year!, month! - 1, day!, hour!, minute!, second);
+  const check = new Date(guess);
+  // Date.UTC rolls out-of-range fields over, e.g. 09:75 into 10:15
+  if (
+    check.getUTCMonth() !== month! - 1 ||
+    check.getUTCDate() !== day! ||
+    hour! > 23 ||
+    minute! > 59 ||
+    second > 59
+  ) {
+    throw new TwitterServiceError("validation", `Invalid time "${at}"`);
+  }
+  // Correct the offset once more, in case the first guess crossed a DST change
+  const first = guess - timeZoneOffset(guess, timeZone);
+  return guess - timeZoneOffset(first, timeZone);
+}
+
+/**
+ * Format an instant as wall-clock time in a time zone, e.g. `2026-10-20 09:00 (Europe/Berlin)`
+ */
+export function formatLocalTime(instant: number, timeZone: string): string {
+  const { year, month, day, hour, minute } = wallClock(instant, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)} (${timeZone})`;
+}
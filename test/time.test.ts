@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatLocalTime, parseTime } from "../src/x/time.js";
+
+describe("parseTime", () => {
+  it("reads a wall-clock time in a time zone", () => {
+    assert.equal(
+      parseTime("2026-10-20T09:15", "Europe/Berlin"),
+      Date.parse("2026-10-20T07:15:00Z")
+    );
+    assert.equal(
+      parseTime("2026-12-20 09:15:30", "Europe/Berlin"),
+      Date.parse("2026-12-20T08:15:30Z")
+    );
+  });
+
+  it("keeps an explicit offset", () => {
+    assert.equal(
+      parseTime("2026-10-20T09:00:00+02:00", "America/New_York"),
+      Date.parse("2026-10-20T07:00:00Z")
+    );
+  });
+
+  it("crosses a DST change", () => {
+    // Europe/Berlin leaves summer time on 2026-10-25 at 03:00
+    assert.equal(
+      formatLocalTime(parseTime("2026-10-25T12:00", "Europe/Berlin"), "Europe/Berlin"),
+      "2026-10-25 12:00 (Europe/Berlin)"
+    );
+  });
+
+  for (const at of [
+    "2026-13-01T09:00",
+    "2026-02-30T09:00",
+    "2026-10-20T24:00",
+    "2026-10-20T09:60",
+    "2026-10-20T09:75",
+    "2026-10-20T09:00:60",
+  ]) {
+    it(`refuses the out-of-range time ${at}`, () => {
+      assert.throws(() => parseTime(at, "Europe/Berlin"), {
+        code: "validation",
+      });
+    });
+  }
+
+  it("refuses an unknown time zone", () => {
+    assert.throws(() => parseTime("2026-10-20T09:00", "Mars/Olympus"), {
+      code: "validation",
+    });
+  });
+});